@@ -0,0 +1,233 @@
+import { useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  CircleDashed,
+  CircleSlash,
+  Download,
+  ListChecks,
+  Loader2,
+  Play,
+  Square,
+  Upload,
+} from 'lucide-react';
+import type { BatchItem, BatchItemStatus } from '@/hooks/use-batch-run';
+import type { ModelConfig } from '@/lib/domain';
+import {
+  BATCH_CONCURRENCY_OPTIONS,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_PROMPTS,
+  parseBatchFile,
+} from '@/lib/batch';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/history-export';
+
+interface BatchRunDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  config: ModelConfig;
+  items: BatchItem[];
+  isRunning: boolean;
+  /** Id of the latest batch, shown once it has run. */
+  batchId: string | null;
+  onRun: (prompts: string[], concurrency: number) => void;
+  onStop: () => void;
+  onExport: (format: ExportFormat) => void;
+  /** Disables starting while a regular run or comparison is in progress. */
+  disabled?: boolean;
+}
+
+const STATUS_ICONS: Record<BatchItemStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pending: { icon: CircleDashed, className: 'text-slate-500' },
+  running: { icon: Loader2, className: 'text-blue-400 animate-spin' },
+  done: { icon: CheckCircle2, className: 'text-emerald-400' },
+  error: { icon: AlertTriangle, className: 'text-red-400' },
+  cancelled: { icon: Square, className: 'text-amber-400' },
+  skipped: { icon: CircleSlash, className: 'text-slate-500' },
+};
+
+export const BatchRunDialog = ({
+  open,
+  onOpenChange,
+  config,
+  items,
+  isRunning,
+  batchId,
+  onRun,
+  onStop,
+  onExport,
+  disabled = false,
+}: BatchRunDialogProps) => {
+  const [prompts, setPrompts] = useState<string[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('jsonl');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const finished = items.filter((item) => !['pending', 'running'].includes(item.status)).length;
+  const failed = items.filter((item) => item.status === 'error').length;
+  const hasResults = items.some((item) => item.message);
+  const progress = items.length ? (finished / items.length) * 100 : 0;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      setPrompts(parseBatchFile(await file.text(), file.name));
+      setFileError(null);
+    } catch (error) {
+      setPrompts([]);
+      setFileError(error instanceof Error ? error.message : 'Could not read the file.');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ListChecks className="h-5 w-5 text-blue-400" />
+            <span>Batch Run</span>
+          </DialogTitle>
+          <DialogDescription>
+            Run up to {MAX_BATCH_PROMPTS} prompts from a CSV, JSONL or text file with the current configuration.
+            Every result is saved to history under the batch id.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Source */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1.5">
+            <Label>Prompts</Label>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+                <Upload className="h-3.5 w-3.5 mr-2" />
+                Choose file
+              </Button>
+              <span className="text-xs text-muted-foreground truncate max-w-[12rem]">
+                {fileName ? `${fileName} · ${prompts.length} prompts` : 'No file selected'}
+              </span>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.jsonl,.ndjson,.txt,text/csv,text/plain,application/x-ndjson"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Concurrency</Label>
+            <Select
+              value={String(concurrency)}
+              onValueChange={(value) => setConcurrency(Number(value))}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="h-9 w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BATCH_CONCURRENCY_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="ml-auto flex items-center gap-2">
+            {isRunning ? (
+              <Button variant="outline" size="sm" onClick={onStop}>
+                <Square className="h-3.5 w-3.5 mr-2 fill-current" />
+                Stop
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => onRun(prompts, concurrency)} disabled={disabled || prompts.length === 0}>
+                <Play className="h-3.5 w-3.5 mr-2" />
+                Run {prompts.length || ''}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {fileError && <p className="text-sm text-red-400">{fileError}</p>}
+
+        <p className="text-xs font-mono text-muted-foreground">
+          {config.preset} · T {config.temperature} · K {config.topK} · P {config.topP} · max {config.maxTokens}
+          {config.systemPrompt && ' · system prompt'}
+        </p>
+
+        {/* Progress */}
+        {items.length > 0 && (
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {finished} / {items.length} finished
+                  {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+                </span>
+                {batchId && <Badge variant="outline" className="font-mono text-xs">{batchId}</Badge>}
+              </div>
+              <Progress value={progress} className="h-2" />
+            </div>
+
+            <div className="rounded-lg border divide-y max-h-72 overflow-y-auto">
+              {items.map((item, index) => {
+                const { icon: Icon, className } = STATUS_ICONS[item.status];
+                return (
+                  <div key={index} className="flex items-start gap-3 px-3 py-2 text-sm">
+                    <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${className}`} />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate">{item.prompt}</p>
+                      {item.message && (
+                        <p className={`text-xs truncate ${item.message.error ? 'text-red-400' : 'text-muted-foreground'}`}>
+                          {item.message.error ? item.message.error.message : item.message.response || '(empty)'}
+                        </p>
+                      )}
+                    </div>
+                    {item.message?.inferenceTime !== undefined && (
+                      <span className="text-xs font-mono text-muted-foreground shrink-0">
+                        {item.message.inferenceTime}ms
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Export */}
+            <div className="flex items-center justify-end gap-2">
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <SelectTrigger className="h-9 w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>{EXPORT_FORMATS[format].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => onExport(exportFormat)} disabled={isRunning || !hasResults}>
+                <Download className="h-3.5 w-3.5 mr-2" />
+                Export results
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,232 @@
+import { OutputBox } from '@/components/OutputBox';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, Columns3, Plus, Save, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { type ModelConfig, type ResponseVariant, type SamplingPreset, BUILT_IN_PRESETS, CUSTOM_PRESET, describeGenerationOptions } from '@/lib/domain';
+import { applyConfigChanges } from '@/lib/presets';
+
+const MIN_COMPARE_VARIANTS = 2;
+const MAX_COMPARE_VARIANTS = 4;
+
+// Static class names so Tailwind can see them
+const GRID_COLUMNS: Record<number, string> = {
+  2: 'xl:grid-cols-2',
+  3: 'xl:grid-cols-3',
+  4: 'xl:grid-cols-4',
+};
+
+const NUMBER_FIELDS: Array<{ key: 'temperature' | 'maxTokens' | 'topK' | 'topP'; label: string; min: number; max: number; step: number }> = [
+  { key: 'temperature', label: 'Temp', min: 0, max: 2, step: 0.1 },
+  { key: 'maxTokens', label: 'Max tokens', min: 10, max: 500, step: 10 },
+  { key: 'topK', label: 'Top-K', min: 1, max: 100, step: 1 },
+  { key: 'topP', label: 'Top-P', min: 0.1, max: 1, step: 0.05 },
+];
+
+const variantLabel = (index: number) => `VARIANT ${String.fromCharCode(65 + index)}`;
+
+const isFinished = (variant: ResponseVariant) =>
+  variant.inferenceTime !== undefined || !!variant.error || !!variant.cancelled;
+
+interface CompareViewProps {
+  configs: ModelConfig[];
+  runs: ResponseVariant[];
+  presets?: SamplingPreset[];
+  isRunning?: boolean;
+  /** Enables the config editors; without it the comparison is read-only. */
+  onConfigsChange?: (configs: ModelConfig[]) => void;
+  onSave?: () => void;
+  isSaved?: boolean;
+}
+
+export const CompareView = ({
+  configs,
+  runs,
+  presets = BUILT_IN_PRESETS,
+  isRunning = false,
+  onConfigsChange,
+  onSave,
+  isSaved,
+}: CompareViewProps) => {
+  const editable = !!onConfigsChange && !isRunning;
+  const canSave = onSave && !isRunning && runs.length > 0 && runs.every(isFinished);
+
+  const updateConfig = (index: number, changes: Partial<ModelConfig>) => {
+    onConfigsChange?.(configs.map((config, i) => (i === index ? applyConfigChanges(config, changes, presets) : config)));
+  };
+
+  const selectPreset = (index: number, id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (!preset) return;
+    onConfigsChange?.(configs.map((config, i) => (i === index ? { ...config, ...preset.params, preset: id } : config)));
+  };
+
+  const addVariant = () => {
+    const last = configs[configs.length - 1];
+    onConfigsChange?.([...configs, { ...last }]);
+  };
+
+  const removeVariant = (index: number) => {
+    onConfigsChange?.(configs.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-4">
+      {onConfigsChange && (
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-slate-400">
+            <Columns3 className="h-4 w-4" />
+            <span className="text-sm font-mono">COMPARE {configs.length} CONFIGS</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            {configs.length < MAX_COMPARE_VARIANTS && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={addVariant}
+                disabled={!editable}
+                className="glass-button text-slate-400 hover:text-slate-300 font-mono"
+              >
+                <Plus className="h-3.5 w-3.5 mr-2" />
+                ADD
+              </Button>
+            )}
+            {onSave && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onSave}
+                disabled={!canSave || isSaved}
+                className="glass-button text-slate-400 hover:text-slate-300 font-mono"
+              >
+                <Save className="h-3.5 w-3.5 mr-2" />
+                {isSaved ? 'SAVED' : 'SAVE TO HISTORY'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={`grid grid-cols-1 md:grid-cols-2 gap-4 ${GRID_COLUMNS[configs.length] ?? ''}`}>
+        {configs.map((config, index) => {
+          const variant = runs[index];
+          return (
+            <motion.div
+              key={index}
+              initial={{ y: 12, opacity: 0 }}
+              animate={{ y: 0, opacity: 1 }}
+              transition={{ duration: 0.3, delay: index * 0.05 }}
+              className="space-y-3 min-w-0"
+            >
+              {onConfigsChange ? (
+                <Card className="glass-panel border-slate-700/40 p-3 space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-mono text-slate-400">{variantLabel(index)}</span>
+                    <div className="flex items-center space-x-1">
+                      <Select
+                        value={config.preset}
+                        onValueChange={(id) => selectPreset(index, id)}
+                        disabled={!editable}
+                      >
+                        <SelectTrigger className="h-7 w-28 text-xs bg-slate-800/50 border-slate-700">
+                          <SelectValue placeholder="Custom" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {presets.map((preset) => (
+                            <SelectItem key={preset.id} value={preset.id} className="text-xs">
+                              {preset.name}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={CUSTOM_PRESET} disabled className="text-xs">
+                            Custom
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {configs.length > MIN_COMPARE_VARIANTS && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeVariant(index)}
+                          disabled={!editable}
+                          className="h-7 w-7 p-0 text-slate-400 hover:text-slate-300"
+                          aria-label={`Remove ${variantLabel(index).toLowerCase()}`}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    {NUMBER_FIELDS.map((field) => (
+                      <div key={field.key} className="space-y-1">
+                        <Label htmlFor={`compare-${index}-${field.key}`} className="text-xs text-slate-500">
+                          {field.label}
+                        </Label>
+                        <Input
+                          id={`compare-${index}-${field.key}`}
+                          type="number"
+                          min={field.min}
+                          max={field.max}
+                          step={field.step}
+                          value={config[field.key]}
+                          disabled={!editable}
+                          onChange={(e) => {
+                            const value = Number(e.target.value);
+                            if (e.target.value !== '' && !isNaN(value)) updateConfig(index, { [field.key]: value });
+                          }}
+                          className="h-7 text-xs font-mono bg-slate-800/50 border-slate-700"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+              ) : (
+                <p className="text-xs font-mono text-slate-500 truncate">
+                  {[
+                    variantLabel(index),
+                    config.preset,
+                    `T ${config.temperature}`,
+                    `K ${config.topK}`,
+                    `P ${config.topP}`,
+                    `max ${config.maxTokens}`,
+                    ...describeGenerationOptions(config),
+                  ].join(' · ')}
+                </p>
+              )}
+
+              {variant?.error ? (
+                <Card className="glass-panel border-red-500/30 p-4">
+                  <div className="flex items-start space-x-3">
+                    <AlertTriangle className="h-4 w-4 text-red-400 mt-0.5 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="text-sm font-mono text-red-300">
+                        {variant.error.status ? `ERROR ${variant.error.status}` : 'ERROR'}
+                      </p>
+                      <p className="text-sm text-slate-400 break-words">{variant.error.message}</p>
+                    </div>
+                  </div>
+                </Card>
+              ) : variant && (
+                <OutputBox
+                  label={variantLabel(index)}
+                  content={variant.response}
+                  isGenerating={isRunning && !isFinished(variant)}
+                  animate={false}
+                  inferenceTime={variant.inferenceTime}
+                  timeToFirstToken={variant.timeToFirstToken}
+                  tokensUsed={variant.tokensUsed}
+                  logprobs={variant.logprobs}
+                  cancelled={variant.cancelled}
+                  demo={variant.demo}
+                />
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
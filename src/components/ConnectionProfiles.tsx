@@ -0,0 +1,177 @@
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Server, Plus, Trash2 } from 'lucide-react';
+import { DEFAULT_HEALTH_PATH, buildEndpointUrl, type ConnectionProfile } from '@/lib/connections';
+
+interface ConnectionProfilesProps {
+  demoMode: boolean;
+  onDemoModeChange: (enabled: boolean) => void;
+  profiles: ConnectionProfile[];
+  activeProfile: ConnectionProfile;
+  onSelect: (id: string) => void;
+  onSave: (profile: ConnectionProfile) => void;
+  onRemove: (id: string) => void;
+}
+
+export const ConnectionProfiles = ({
+  demoMode,
+  onDemoModeChange,
+  profiles,
+  activeProfile,
+  onSelect,
+  onSave,
+  onRemove,
+}: ConnectionProfilesProps) => {
+  const updateProfile = <K extends keyof ConnectionProfile>(key: K, value: ConnectionProfile[K]) => {
+    onSave({ ...activeProfile, [key]: value });
+  };
+
+  const handleAdd = () => {
+    const profile: ConnectionProfile = {
+      ...activeProfile,
+      id: Date.now().toString(),
+      name: `Profile ${profiles.length + 1}`,
+    };
+    onSave(profile);
+    onSelect(profile.id);
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Server className="h-4 w-4 text-blue-400" />
+          <h3 className="text-sm font-medium text-slate-300">Connection</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleAdd}
+            className="text-slate-400 hover:text-white p-2"
+            title="Add profile"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(activeProfile.id)}
+            disabled={profiles.length <= 1}
+            className="text-slate-400 hover:text-red-400 p-2"
+            title="Delete profile"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Demo mode */}
+      <div className="flex items-center justify-between rounded-lg border border-slate-700 bg-slate-700/30 px-3 py-2 mb-4">
+        <div>
+          <Label htmlFor="demo-mode" className="text-xs text-slate-300">Demo mode</Label>
+          <p className="text-xs text-slate-500 mt-1">Canned responses, no backend calls.</p>
+        </div>
+        <Switch id="demo-mode" checked={demoMode} onCheckedChange={onDemoModeChange} />
+      </div>
+
+      {/* Profile list */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {profiles.map((profile) => (
+          <button
+            key={profile.id}
+            onClick={() => onSelect(profile.id)}
+            className={`px-3 py-1.5 rounded-lg border text-xs transition-all ${
+              profile.id === activeProfile.id
+                ? 'border-blue-400 bg-blue-400/10 text-blue-300'
+                : 'border-slate-600 bg-slate-700/50 text-slate-300 hover:border-slate-500'
+            }`}
+          >
+            {profile.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Active profile */}
+      <div className="space-y-3">
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-400">Name</Label>
+          <Input
+            value={activeProfile.name}
+            onChange={(e) => updateProfile('name', e.target.value)}
+            className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-400">Base URL</Label>
+          <Input
+            value={activeProfile.baseUrl}
+            onChange={(e) => updateProfile('baseUrl', e.target.value)}
+            placeholder="Same origin (dev proxy)"
+            className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono placeholder:text-slate-500"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Path</Label>
+            <Input
+              value={activeProfile.path}
+              onChange={(e) => updateProfile('path', e.target.value)}
+              className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Health path</Label>
+            <Input
+              value={activeProfile.healthPath ?? ''}
+              onChange={(e) => updateProfile('healthPath', e.target.value)}
+              placeholder={DEFAULT_HEALTH_PATH}
+              className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono placeholder:text-slate-500"
+            />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs text-slate-400">Timeout (s)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={Math.round(activeProfile.timeoutMs / 1000)}
+            onChange={(e) => updateProfile('timeoutMs', Math.max(1, Number(e.target.value) || 1) * 1000)}
+            className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono"
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Auth header</Label>
+            <Input
+              value={activeProfile.authHeaderName ?? ''}
+              onChange={(e) => updateProfile('authHeaderName', e.target.value)}
+              placeholder="Authorization"
+              className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono placeholder:text-slate-500"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs text-slate-400">Value</Label>
+            <Input
+              type="password"
+              value={activeProfile.authHeaderValue ?? ''}
+              onChange={(e) => updateProfile('authHeaderValue', e.target.value)}
+              placeholder="Optional"
+              className="h-8 bg-slate-800/50 border-slate-700 text-white text-xs font-mono placeholder:text-slate-500"
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between text-xs">
+          <span className="text-slate-400">Endpoint:</span>
+          <Badge variant="outline" className="text-xs font-mono truncate max-w-[70%]">
+            {buildEndpointUrl(activeProfile)}
+          </Badge>
+        </div>
+      </div>
+    </Card>
+  );
+};
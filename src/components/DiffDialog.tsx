@@ -0,0 +1,139 @@
+import { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { GitCompare } from 'lucide-react';
+import type { ChatMessage } from '@/lib/domain';
+import { diffSimilarity, diffWords } from '@/lib/diff';
+
+interface DiffDialogProps {
+  /** Older and newer entry; the diff reads from `before` to `after`. */
+  entries: [ChatMessage, ChatMessage] | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: Date) =>
+  new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+
+const responseText = (message: ChatMessage) => message.error ? `[error] ${message.error.message}` : message.response;
+
+const formatStop = (stop: string[]) => stop.length ? stop.map((value) => JSON.stringify(value)).join(', ') : 'none';
+
+const compareRows = (before: ChatMessage, after: ChatMessage) => [
+  { field: 'systemPrompt', before: before.config.systemPrompt || '—', after: after.config.systemPrompt || '—' },
+  { field: 'prompt', before: before.prompt, after: after.prompt },
+  { field: 'preset', before: before.config.preset, after: after.config.preset },
+  { field: 'temperature', before: before.config.temperature, after: after.config.temperature },
+  { field: 'maxTokens', before: before.config.maxTokens, after: after.config.maxTokens },
+  { field: 'topK', before: before.config.topK, after: after.config.topK },
+  { field: 'topP', before: before.config.topP, after: after.config.topP },
+  { field: 'contextTurns', before: before.config.contextTurns, after: after.config.contextTurns },
+  { field: 'stop', before: formatStop(before.config.stop), after: formatStop(after.config.stop) },
+  { field: 'repetitionPenalty', before: before.config.repetitionPenalty, after: after.config.repetitionPenalty },
+  { field: 'presencePenalty', before: before.config.presencePenalty, after: after.config.presencePenalty },
+  { field: 'frequencyPenalty', before: before.config.frequencyPenalty, after: after.config.frequencyPenalty },
+  { field: 'seed', before: before.config.seed ?? 'random', after: after.config.seed ?? 'random' },
+  { field: 'minLength', before: before.config.minLength, after: after.config.minLength },
+  { field: 'topLogprobs', before: before.config.topLogprobs, after: after.config.topLogprobs },
+  { field: 'latency', before: before.inferenceTime, after: after.inferenceTime, unit: 'ms' },
+  { field: 'tokens', before: before.tokensUsed, after: after.tokensUsed },
+];
+
+export const DiffDialog = ({ entries, onOpenChange }: DiffDialogProps) => {
+  const parts = useMemo(
+    () => (entries ? diffWords(responseText(entries[0]), responseText(entries[1])) : []),
+    [entries]
+  );
+
+  if (!entries) return null;
+  const [before, after] = entries;
+  const similarity = Math.round(diffSimilarity(parts) * 100);
+  const rows = compareRows(before, after);
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <GitCompare className="h-5 w-5 text-blue-400" />
+            <span>Response Diff</span>
+          </DialogTitle>
+          <DialogDescription>
+            {formatDate(before.timestamp)} → {formatDate(after.timestamp)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Settings */}
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-32">Field</TableHead>
+              <TableHead>Before</TableHead>
+              <TableHead>After</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => {
+              const changed = row.before !== row.after;
+              const format = (value: string | number | undefined) =>
+                value === undefined ? '—' : `${value}${row.unit ?? ''}`;
+              return (
+                <TableRow key={row.field} className={changed ? 'bg-amber-400/5' : ''}>
+                  <TableCell className="font-mono text-xs">
+                    {row.field}
+                    {changed && <span className="ml-2 text-amber-400">●</span>}
+                  </TableCell>
+                  <TableCell className="text-xs max-w-xs truncate">{format(row.before)}</TableCell>
+                  <TableCell className="text-xs max-w-xs truncate">{format(row.after)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {/* Response */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Response</h3>
+            <div className="flex items-center space-x-2 text-xs">
+              <Badge variant="outline">{similarity}% unchanged</Badge>
+              <span className="text-red-400 line-through">removed</span>
+              <span className="text-emerald-400">added</span>
+            </div>
+          </div>
+          <div className="rounded-lg border p-4 whitespace-pre-wrap text-sm leading-relaxed">
+            {parts.length === 0 ? (
+              <span className="text-muted-foreground">Both responses are empty.</span>
+            ) : (
+              parts.map((part, index) => (
+                <span
+                  key={index}
+                  className={
+                    part.kind === 'removed'
+                      ? 'bg-red-500/15 text-red-400 line-through'
+                      : part.kind === 'added'
+                        ? 'bg-emerald-500/15 text-emerald-400'
+                        : ''
+                  }
+                >
+                  {part.text}
+                </span>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,26 @@
+import type { MatchRange } from '@/lib/history-search';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Sorted, non-overlapping ranges to mark. */
+  ranges: MatchRange[];
+}
+
+export const HighlightedText = ({ text, ranges }: HighlightedTextProps) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-400/25 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
@@ -1,52 +1,222 @@
 
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { Search, Trash2, Clock, Copy, Star, MessageSquare } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Search,
+  Trash2,
+  Clock,
+  Copy,
+  Star,
+  MessageSquare,
+  ListChecks,
+  ArrowDownUp,
+  Upload,
+  GitCompare,
+  HelpCircle,
+} from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useToast } from '@/hooks/use-toast';
+import { useVirtualList } from '@/hooks/use-virtual-list';
+import { describeGenerationOptions } from '@/lib/domain';
+import type { ChatThread } from '@/lib/threads';
+import { EXPORT_FORMATS, type ExportFormat } from '@/lib/history-export';
+import {
+  type HistorySort,
+  SEARCH_SYNTAX,
+  entryConfigs,
+  entryResponseText,
+  excerpt,
+  parseSearchQuery,
+  searchThreads,
+} from '@/lib/history-search';
+import { HighlightedText } from '@/components/HighlightedText';
 
-interface ChatMessage {
-  id: string;
-  prompt: string;
-  response: string;
-  timestamp: Date;
-  config: {
-    temperature: number;
-    maxTokens: number;
-    topK: number;
-    topP: number;
-    preset: string;
-  };
-  inferenceTime?: number;
-  tokensUsed?: number;
-}
+// Rough card height before it has been measured
+const ESTIMATED_CARD_HEIGHT = 170;
+// Older history loads when the list is scrolled within this distance of the end
+const LOAD_MORE_THRESHOLD = 600;
+// Only the first few cards of a batch are staggered
+const MAX_STAGGERED_CARDS = 6;
+const SEARCH_DEBOUNCE_MS = 250;
+// Older pages a search loads by itself; beyond that the user loads more explicitly
+const MAX_SEARCH_PAGES = 5;
+
+const SORT_LABELS: Record<HistorySort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  slowest: 'Slowest',
+  tokens: 'Most tokens',
+};
 
 interface HistoryPanelProps {
-  history: ChatMessage[];
-  onSelect: (message: ChatMessage) => void;
-  onClear: () => void;
+  threads: ChatThread[];
+  activeThreadId?: string | null;
+  onSelect: (threadId: string) => void;
+  onDelete: (threadIds: string[]) => void;
+  /** Opens a diff of the latest responses of two threads. */
+  onDiff: (threadIds: [string, string]) => void;
+  onClear: (includeFavorites: boolean) => void;
+  /** Exports the given threads, or the whole history when none are passed. */
+  onExport: (format: ExportFormat, threadIds?: string[]) => void;
+  onImport: (file: File) => void;
+  onToggleFavorite: (threadId: string) => void;
+  hasMore?: boolean;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+  /** Loads older entries for a preset when the search filters by one. */
+  onSearchPreset?: (preset: string) => void;
 }
 
-export const HistoryPanel = ({ history, onSelect, onClear }: HistoryPanelProps) => {
+export const HistoryPanel = ({
+  threads,
+  activeThreadId,
+  onSelect,
+  onDelete,
+  onDiff,
+  onClear,
+  onExport,
+  onImport,
+  onToggleFavorite,
+  hasMore,
+  isLoading,
+  onLoadMore,
+  onSearchPreset,
+}: HistoryPanelProps) => {
   const [searchQuery, setSearchQuery] = useState('');
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [appliedQuery, setAppliedQuery] = useState('');
+  const [searchPages, setSearchPages] = useState(0);
+  const [sort, setSort] = useState<HistorySort>('relevance');
+  const [view, setView] = useState<'all' | 'favorites'>('all');
+  const [includeFavorites, setIncludeFavorites] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const filteredHistory = history.filter(message =>
-    message.prompt.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    message.response.toLowerCase().includes(searchQuery.toLowerCase())
+  const favoriteCount = threads.filter(thread => thread.favorite).length;
+
+  // Diff compares single responses, which a saved comparison does not have
+  const selectionHasComparison = threads.some(
+    thread => selectedIds.has(thread.id) && thread.messages[thread.messages.length - 1].comparison
   );
 
-  const toggleFavorite = (messageId: string) => {
-    setFavorites(prev => 
-      prev.includes(messageId)
-        ? prev.filter(id => id !== messageId)
-        : [...prev, messageId]
-    );
+  // Clearing the search applies at once; typing waits for a pause
+  useEffect(() => {
+    const timer = setTimeout(() => setAppliedQuery(searchQuery), searchQuery ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    setSearchPages(0);
+    const { preset } = parseSearchQuery(appliedQuery).filters;
+    if (preset) onSearchPreset?.(preset);
+  }, [appliedQuery, onSearchPreset]);
+
+  const isTextSearch = useMemo(() => parseSearchQuery(appliedQuery).terms.length > 0, [appliedQuery]);
+
+  const results = useMemo(() => {
+    const ranked = searchThreads(threads.filter(thread => view === 'all' || thread.favorite), appliedQuery, sort);
+    // Pinned threads first when browsing by recency; the sort is stable so order is kept within each group
+    return sort === 'newest' || (sort === 'relevance' && !isTextSearch)
+      ? ranked.sort((a, b) => Number(b.thread.favorite) - Number(a.thread.favorite))
+      : ranked;
+  }, [threads, view, appliedQuery, sort, isTextSearch]);
+  const filteredThreads = results.map(result => result.thread);
+
+  const getKey = useCallback((index: number) => results[index].thread.id, [results]);
+  const { containerRef, measureRef, items, totalHeight, distanceToEnd } = useVirtualList({
+    count: results.length,
+    getKey,
+    estimateSize: ESTIMATED_CARD_HEIGHT,
+    paddingStart: 16,
+  });
+
+  // Cards animate in once; scrolling back to them should not replay it
+  const animatedKeys = useRef(new Set<string>());
+  useEffect(() => {
+    items.forEach(item => animatedKeys.current.add(item.key));
+  }, [items]);
+
+  const isFiltered = appliedQuery !== '' || view === 'favorites';
+  // Search only sees loaded pages, so it pulls in a few older ones by itself.
+  // Favorites are always fully loaded and never need paging.
+  const isSearchingOlder = appliedQuery !== '' && view === 'all' && searchPages < MAX_SEARCH_PAGES;
+
+  useEffect(() => {
+    if (!hasMore || isLoading || !onLoadMore || view === 'favorites') return;
+    if (results.length > 0 && distanceToEnd < LOAD_MORE_THRESHOLD) {
+      onLoadMore();
+    } else if (isSearchingOlder) {
+      setSearchPages(pages => pages + 1);
+      onLoadMore();
+    }
+  }, [hasMore, isLoading, onLoadMore, view, isSearchingOlder, results.length, distanceToEnd]);
+  const exportScopes = [
+    { label: 'All history', threadIds: undefined },
+    isFiltered && { label: `Shown (${filteredThreads.length})`, threadIds: filteredThreads.map(thread => thread.id) },
+    selectedIds.size > 0 && { label: `Selected (${selectedIds.size})`, threadIds: Array.from(selectedIds) },
+  ].filter(Boolean) as { label: string; threadIds?: string[] }[];
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    // Allow importing the same file again
+    e.target.value = '';
+  };
+
+  const toggleSelected = (threadId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(threadId)) {
+        next.delete(threadId);
+      } else {
+        next.add(threadId);
+      }
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const deleteSelected = () => {
+    // Threads may have disappeared since they were selected
+    const ids = threads.filter(thread => selectedIds.has(thread.id)).map(thread => thread.id);
+    if (ids.length > 0) onDelete(ids);
+    stopSelecting();
   };
 
   const copyPrompt = async (prompt: string, e: React.MouseEvent) => {
@@ -84,126 +254,391 @@ export const HistoryPanel = ({ history, onSelect, onClear }: HistoryPanelProps)
             <MessageSquare className="h-5 w-5 text-blue-400" />
             <h2 className="text-lg font-semibold text-white">Chat History</h2>
           </div>
-          <Badge variant="outline" className="text-xs">
-            {history.length} conversations
-          </Badge>
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline" className="text-xs">
+              {threads.length} conversations
+            </Badge>
+            {threads.length > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+                className={`h-7 px-2 text-xs ${isSelecting ? 'text-blue-400' : 'text-slate-400'} hover:text-white`}
+              >
+                <ListChecks className="h-3 w-3 mr-1" />
+                {isSelecting ? 'Done' : 'Select'}
+              </Button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-slate-400 hover:text-white" title="Export / import">
+                  <ArrowDownUp className="h-3 w-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Export</DropdownMenuLabel>
+                {exportScopes.map(scope => (
+                  <DropdownMenuSub key={scope.label}>
+                    <DropdownMenuSubTrigger disabled={threads.length === 0}>{scope.label}</DropdownMenuSubTrigger>
+                    <DropdownMenuSubContent>
+                      {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                        <DropdownMenuItem key={format} onSelect={() => onExport(format, scope.threadIds)}>
+                          {EXPORT_FORMATS[format].label}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuSubContent>
+                  </DropdownMenuSub>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import JSON...
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
         </div>
         
+        {/* Filter */}
+        <Tabs value={view} onValueChange={(value) => setView(value as 'all' | 'favorites')} className="mb-3">
+          <TabsList className="grid w-full grid-cols-2 bg-slate-800/50">
+            <TabsTrigger value="all" className="text-xs">All</TabsTrigger>
+            <TabsTrigger value="favorites" className="text-xs">
+              <Star className="h-3 w-3 mr-1" />
+              Favorites ({favoriteCount})
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-slate-400" />
           <Input
-            placeholder="Search conversations..."
+            placeholder="Search, or try preset:creative temp:>0.8"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
+            className="pl-10 pr-9 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
           />
+          <Popover>
+            <PopoverTrigger asChild>
+              <button
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white"
+                aria-label="Search syntax"
+              >
+                <HelpCircle className="h-4 w-4" />
+              </button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 text-xs space-y-2">
+              <p className="font-medium">Search filters</p>
+              {SEARCH_SYNTAX.map(item => (
+                <div key={item.example} className="flex justify-between gap-3">
+                  <code className="font-mono text-blue-400">{item.example}</code>
+                  <span className="text-muted-foreground text-right">{item.description}</span>
+                </div>
+              ))}
+              <p className="text-muted-foreground">Other words are matched loosely against prompts and responses.</p>
+            </PopoverContent>
+          </Popover>
+        </div>
+
+        {/* Sort */}
+        <div className="flex items-center justify-between mt-3">
+          <span className="text-xs text-slate-400">
+            {isFiltered ? `${results.length} of ${threads.length} shown` : 'Sort by'}
+          </span>
+          <Select value={sort} onValueChange={(value) => setSort(value as HistorySort)}>
+            <SelectTrigger className="h-7 w-32 text-xs bg-slate-800/50 border-slate-700">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as HistorySort[]).map(option => (
+                <SelectItem key={option} value={option} className="text-xs">
+                  {SORT_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
       </div>
 
       {/* History List */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3">
-        {filteredHistory.length === 0 ? (
-          <div className="text-center py-8">
+      <div ref={containerRef} className="flex-1 overflow-y-auto">
+        {results.length === 0 ? (
+          <div className="text-center py-12">
             <MessageSquare className="h-12 w-12 mx-auto text-slate-600 mb-3" />
             <p className="text-slate-400">
-              {history.length === 0 ? 'No conversations yet' : 'No matches found'}
+              {isLoading || (isSearchingOlder && hasMore)
+                ? threads.length === 0 ? 'Loading history...' : 'Searching older history...'
+                : threads.length === 0
+                  ? 'No conversations yet'
+                  : view === 'favorites' && favoriteCount === 0 ? 'No favorites yet' : 'No matches found'}
             </p>
           </div>
         ) : (
-          filteredHistory.map((message, index) => (
-            <motion.div
-              key={message.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.3, delay: index * 0.1 }}
-            >
-              <Card
-                className="bg-slate-800/50 border-slate-700 hover:border-slate-600 cursor-pointer transition-all duration-200 hover:shadow-lg"
-                onClick={() => onSelect(message)}
-              >
-                <div className="p-4">
-                  {/* Header with actions */}
-                  <div className="flex items-start justify-between mb-2">
-                    <div className="flex items-center space-x-2">
-                      <Clock className="h-3 w-3 text-slate-400" />
-                      <span className="text-xs text-slate-400">
-                        {formatDate(message.timestamp)}
-                      </span>
-                    </div>
-                    <div className="flex items-center space-x-1">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          toggleFavorite(message.id);
-                        }}
-                        className={`p-1 rounded-full hover:bg-slate-700 transition-colors ${
-                          favorites.includes(message.id) ? 'text-yellow-400' : 'text-slate-400'
-                        }`}
-                      >
-                        <Star className="h-3 w-3" />
-                      </button>
-                      <button
-                        onClick={(e) => copyPrompt(message.prompt, e)}
-                        className="p-1 rounded-full hover:bg-slate-700 transition-colors text-slate-400 hover:text-white"
-                      >
-                        <Copy className="h-3 w-3" />
-                      </button>
-                    </div>
-                  </div>
+          <div className="relative" style={{ height: totalHeight }}>
+            {items.map(({ index, key, start }, position) => {
+              const { thread, message, promptRanges, responseRanges } = results[index];
+              // Text searches preview the matching exchange; otherwise the thread's opening prompt
+              const prompt = isTextSearch
+                ? excerpt(message.prompt, promptRanges, 100)
+                : excerpt(thread.title, [], 100);
+              const response = excerpt(entryResponseText(message), responseRanges, 150);
+              const configs = entryConfigs(message);
+              // A saved comparison lists each variant's settings, lettered like the compare view
+              const variantPrefix = (i: number) => (configs.length > 1 ? `${String.fromCharCode(65 + i)}: ` : '');
+              const options = configs
+                .map((config, i) => ({ i, options: describeGenerationOptions(config) }))
+                .filter(({ options }) => options.length > 0)
+                .map(({ i, options }) => `${variantPrefix(i)}${options.join(' · ')}`);
+              const isSelected = selectedIds.has(thread.id);
+              return (
+                <div
+                  key={key}
+                  ref={measureRef}
+                  data-virtual-key={key}
+                  className="absolute left-0 right-0 top-0 px-4 pb-3"
+                  style={{ transform: `translateY(${start}px)` }}
+                >
+                  <motion.div
+                    initial={animatedKeys.current.has(key) ? false : { opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.3, delay: Math.min(position, MAX_STAGGERED_CARDS) * 0.05 }}
+                  >
+                    <Card
+                      className={`bg-slate-800/50 hover:border-slate-600 cursor-pointer transition-all duration-200 hover:shadow-lg ${
+                        isSelected || thread.id === activeThreadId ? 'border-blue-400/60' : 'border-slate-700'
+                      }`}
+                      onClick={() => (isSelecting ? toggleSelected(thread.id) : onSelect(thread.id))}
+                    >
+                      <div className="p-4">
+                        {/* Header with actions */}
+                        <div className="flex items-start justify-between mb-2">
+                          <div className="flex items-center space-x-2">
+                            {isSelecting && (
+                              <Checkbox
+                                checked={isSelected}
+                                onClick={(e) => e.stopPropagation()}
+                                onCheckedChange={() => toggleSelected(thread.id)}
+                                aria-label="Select conversation"
+                              />
+                            )}
+                            <Clock className="h-3 w-3 text-slate-400" />
+                            <span className="text-xs text-slate-400">
+                              {formatDate(message.timestamp)}
+                            </span>
+                            {thread.messages.length > 1 && (
+                              <Badge variant="outline" className="text-xs">
+                                {thread.messages.length} turns
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-1">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onToggleFavorite(thread.id);
+                              }}
+                              className={`p-1 rounded-full hover:bg-slate-700 transition-colors ${
+                                thread.favorite ? 'text-yellow-400' : 'text-slate-400'
+                              }`}
+                            >
+                              <Star className={`h-3 w-3 ${thread.favorite ? 'fill-current' : ''}`} />
+                            </button>
+                            <button
+                              onClick={(e) => copyPrompt(message.prompt, e)}
+                              className="p-1 rounded-full hover:bg-slate-700 transition-colors text-slate-400 hover:text-white"
+                            >
+                              <Copy className="h-3 w-3" />
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onDelete([thread.id]);
+                              }}
+                              className="p-1 rounded-full hover:bg-slate-700 transition-colors text-slate-400 hover:text-red-400"
+                              aria-label="Delete conversation"
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </button>
+                          </div>
+                        </div>
 
-                  {/* Prompt Preview */}
-                  <div className="mb-3">
-                    <p className="text-sm text-white font-medium mb-1">
-                      {message.prompt.length > 100 
-                        ? `${message.prompt.substring(0, 100)}...`
-                        : message.prompt
-                      }
-                    </p>
-                    <p className="text-xs text-slate-400">
-                      {message.response.length > 150
-                        ? `${message.response.substring(0, 150)}...`
-                        : message.response
-                      }
-                    </p>
-                  </div>
+                        {/* Thread Preview */}
+                        <div className="mb-3">
+                          <p className="text-sm text-white font-medium mb-1">
+                            <HighlightedText text={prompt.text} ranges={prompt.ranges} />
+                          </p>
+                          <p className={`text-xs ${message.error ? 'text-red-400/80' : 'text-slate-400'}`}>
+                            <HighlightedText text={response.text} ranges={response.ranges} />
+                          </p>
+                        </div>
 
-                  {/* Metadata */}
-                  <div className="flex items-center justify-between text-xs">
-                    <div className="flex items-center space-x-2">
-                      <Badge variant="outline" className="text-xs">
-                        {message.config.preset}
-                      </Badge>
-                      <span className="text-slate-400">T: {message.config.temperature}</span>
-                    </div>
-                    <div className="flex items-center space-x-2 text-slate-400">
-                      {message.inferenceTime && (
-                        <span>{message.inferenceTime}ms</span>
-                      )}
-                      {message.tokensUsed && (
-                        <span>{message.tokensUsed} tokens</span>
-                      )}
-                    </div>
-                  </div>
+                        {/* Metadata */}
+                        <div className="flex items-center justify-between text-xs">
+                          <div className="flex items-center space-x-2">
+                            {configs.map((config, i) => (
+                              <span key={i} className="flex items-center space-x-2">
+                                <Badge variant="outline" className="text-xs">
+                                  {variantPrefix(i)}{config.preset}
+                                </Badge>
+                                <span className="text-slate-400">T: {config.temperature}</span>
+                              </span>
+                            ))}
+                            {configs[0].systemPrompt && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs text-slate-300 border-slate-500/40"
+                                title={configs[0].systemPrompt}
+                              >
+                                system
+                              </Badge>
+                            )}
+                            {message.cancelled && (
+                              <Badge variant="outline" className="text-xs text-amber-400 border-amber-400/40">
+                                cancelled
+                              </Badge>
+                            )}
+                            {message.comparison && (
+                              <Badge variant="outline" className="text-xs text-blue-300 border-blue-300/40">
+                                compare ×{message.comparison.length}
+                              </Badge>
+                            )}
+                            {message.batchId && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs text-teal-300 border-teal-300/40"
+                                title={message.batchId}
+                              >
+                                batch
+                              </Badge>
+                            )}
+                            {message.demo && (
+                              <Badge variant="outline" className="text-xs text-amber-300 border-amber-300/40">
+                                demo
+                              </Badge>
+                            )}
+                            {message.error && (
+                              <Badge variant="outline" className="text-xs text-red-400 border-red-400/40">
+                                {message.error.status ? `error ${message.error.status}` : 'error'}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center space-x-2 text-slate-400">
+                            {message.inferenceTime && (
+                              <span>{message.inferenceTime}ms</span>
+                            )}
+                            {message.tokensUsed && (
+                              <span>{message.tokensUsed} tokens</span>
+                            )}
+                          </div>
+                        </div>
+                        {options.map((line) => (
+                          <p key={line} className="mt-1 text-xs font-mono text-slate-500 truncate">
+                            {line}
+                          </p>
+                        ))}
+                      </div>
+                    </Card>
+                  </motion.div>
                 </div>
-              </Card>
-            </motion.div>
-          ))
+              );
+            })}
+          </div>
+        )}
+
+        {hasMore && onLoadMore && (
+          <div className="px-4 pb-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLoadMore}
+              disabled={isLoading}
+              className="w-full text-slate-400 hover:text-white"
+            >
+              {isLoading ? 'Loading...' : 'Load older history'}
+            </Button>
+          </div>
         )}
       </div>
 
       {/* Footer */}
-      {history.length > 0 && (
-        <div className="p-4 border-t border-slate-700">
-          <Button
-            variant="destructive"
-            size="sm"
-            onClick={onClear}
-            className="w-full"
-          >
-            <Trash2 className="h-4 w-4 mr-2" />
-            Clear All History
-          </Button>
+      {threads.length > 0 && (
+        <div className="p-4 border-t border-slate-700 space-y-3">
+          {isSelecting ? (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDiff(Array.from(selectedIds) as [string, string])}
+                disabled={selectedIds.size !== 2 || selectionHasComparison}
+                className="w-full"
+                title={selectionHasComparison
+                  ? 'Saved comparisons cannot be diffed'
+                  : 'Select exactly two conversations to diff'}
+              >
+                <GitCompare className="h-4 w-4 mr-2" />
+                Diff Selected
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={deleteSelected}
+                disabled={selectedIds.size === 0}
+                className="w-full"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Selected ({selectedIds.size})
+              </Button>
+            </>
+          ) : (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" className="w-full">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear All History
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Clear all history?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {favoriteCount > 0 && !includeFavorites
+                      ? 'Every conversation except your favorites will be deleted.'
+                      : 'Every conversation will be deleted.'}
+                    {' '}You can undo this for a few seconds afterwards.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                {favoriteCount > 0 && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="clear-include-favorites"
+                      checked={includeFavorites}
+                      onCheckedChange={(checked) => setIncludeFavorites(checked === true)}
+                    />
+                    <Label htmlFor="clear-include-favorites" className="text-sm">
+                      Also delete {favoriteCount} favorite{favoriteCount === 1 ? '' : 's'}
+                    </Label>
+                  </div>
+                )}
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => onClear(includeFavorites && favoriteCount > 0)}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Clear History
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+
+interface MarkdownContentProps {
+  content: string;
+  /** Highlighting is skipped while text is still arriving to keep updates cheap. */
+  highlight?: boolean;
+}
+
+interface HastNode {
+  type: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+const nodeText = (node: HastNode | undefined): string =>
+  node?.type === 'text' ? node.value ?? '' : (node?.children ?? []).map(nodeText).join('');
+
+const CodeBlock = ({ node, children }: { node?: HastNode; children?: React.ReactNode }) => {
+  const [copied, setCopied] = useState(false);
+  const code = nodeText(node).replace(/\n$/, '');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // Leave the icon unchanged when the clipboard is unavailable
+    }
+  };
+
+  return (
+    <div className="relative group">
+      <button
+        onClick={handleCopy}
+        className="absolute top-2 right-2 glass-button p-1.5 rounded text-slate-400 hover:text-slate-300 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label="Copy code"
+      >
+        {copied ? <Check className="h-3.5 w-3.5 text-emerald-400" /> : <Copy className="h-3.5 w-3.5" />}
+      </button>
+      <pre>{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ node, children }) => <CodeBlock node={node as HastNode}>{children}</CodeBlock>,
+  // Model output should not navigate the app away
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+};
+
+/**
+ * Renders model output as GitHub-flavoured Markdown. Raw HTML is not
+ * rendered and the tree is sanitised before code blocks are highlighted.
+ */
+export const MarkdownContent = ({ content, highlight = true }: MarkdownContentProps) => (
+  <div className="markdown-body">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={highlight ? [rehypeSanitize, [rehypeHighlight, { detect: true }]] : [rehypeSanitize]}
+      components={components}
+    >
+      {content}
+    </ReactMarkdown>
+  </div>
+);
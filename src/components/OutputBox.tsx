@@ -2,23 +2,98 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Copy, Download, Share, Clock, Zap, Terminal } from 'lucide-react';
+import {
+  Copy,
+  Download,
+  Share,
+  Clock,
+  Zap,
+  Terminal,
+  Timer,
+  RefreshCw,
+  ChevronLeft,
+  ChevronRight,
+  CheckCircle2,
+  Circle,
+  FileCode2,
+  Type,
+  BarChart3,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { downloadFile } from '@/lib/download';
+import { MarkdownContent } from '@/components/MarkdownContent';
+import { TokenProbabilities } from '@/components/TokenProbabilities';
+import type { TokenLogprob } from '@/lib/domain';
+import { summarizeLogprobs } from '@/lib/logprobs';
 import { motion } from 'framer-motion';
 
+const RENDER_MODE_STORAGE_KEY = 'minigpt-output-render';
+
+type RenderMode = 'markdown' | 'raw';
+
+const loadRenderMode = (): RenderMode =>
+  localStorage.getItem(RENDER_MODE_STORAGE_KEY) === 'raw' ? 'raw' : 'markdown';
+
 interface OutputBoxProps {
   content: string;
   isGenerating: boolean;
+  /** Heading shown in place of OUTPUT, e.g. to tell compared runs apart. */
+  label?: string;
+  /** Replay the content with a typewriter effect; off for streamed responses. */
+  animate?: boolean;
   inferenceTime?: number;
+  timeToFirstToken?: number;
   tokensUsed?: number;
+  /** Enables the token probability view when the backend reported logprobs. */
+  logprobs?: TokenLogprob[];
+  cancelled?: boolean;
+  demo?: boolean;
+  /** Candidate paging, shown when there is more than one candidate. */
+  candidateIndex?: number;
+  candidateCount?: number;
+  onCandidateChange?: (index: number) => void;
+  isPreferred?: boolean;
+  onPrefer?: () => void;
+  onRegenerate?: () => void;
 }
 
-export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }: OutputBoxProps) => {
+export const OutputBox = ({
+  content,
+  isGenerating,
+  label = 'OUTPUT',
+  animate = true,
+  inferenceTime,
+  timeToFirstToken,
+  tokensUsed,
+  logprobs,
+  cancelled,
+  demo,
+  candidateIndex = 0,
+  candidateCount = 1,
+  onCandidateChange,
+  isPreferred,
+  onPrefer,
+  onRegenerate,
+}: OutputBoxProps) => {
   const [displayedContent, setDisplayedContent] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [renderMode, setRenderMode] = useState<RenderMode>(loadRenderMode);
+  const [showProbabilities, setShowProbabilities] = useState(false);
   const { toast } = useToast();
 
+  const toggleRenderMode = () => {
+    const next = renderMode === 'markdown' ? 'raw' : 'markdown';
+    localStorage.setItem(RENDER_MODE_STORAGE_KEY, next);
+    setRenderMode(next);
+  };
+
   useEffect(() => {
+    if (content && !isGenerating && !animate) {
+      setIsTyping(false);
+      setDisplayedContent(content);
+      return;
+    }
+
     if (content && !isGenerating) {
       setIsTyping(true);
       setDisplayedContent('');
@@ -36,7 +111,24 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
 
       return () => clearInterval(timer);
     }
-  }, [content, isGenerating]);
+  }, [content, isGenerating, animate]);
+
+  // Streamed tokens are shown as they arrive rather than replayed
+  const isStreaming = isGenerating && content.length > 0;
+  const visibleContent = isStreaming || !animate ? content : displayedContent;
+  const hasLogprobs = !!logprobs?.length && !isGenerating;
+  const perplexity = hasLogprobs ? summarizeLogprobs(logprobs)?.perplexity : undefined;
+  const showStats = !isGenerating && (inferenceTime || timeToFirstToken || tokensUsed || perplexity);
+
+  const cursor = (
+    <motion.span
+      animate={{ opacity: [0.3, 1, 0.3] }}
+      transition={{ duration: 0.8, repeat: Infinity }}
+      className="text-slate-400 font-bold"
+    >
+      ▊
+    </motion.span>
+  );
 
   const handleCopy = async () => {
     try {
@@ -55,15 +147,7 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
   };
 
   const handleDownload = () => {
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `neural-output-${Date.now()}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadFile(`neural-output-${Date.now()}.txt`, content);
     
     toast({
       title: "Export complete",
@@ -90,13 +174,54 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
     <Card className="glass-panel border-slate-700/40 overflow-hidden">
       {/* Header */}
       <div className="flex items-center justify-between p-4 lg:p-5 border-b border-slate-700/30">
-        <div className="flex items-center space-x-4">
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
           <div className="flex items-center space-x-3">
             <Terminal className="h-4 w-4 text-slate-400" />
-            <h3 className="font-medium text-slate-300 font-mono">OUTPUT</h3>
+            <h3 className="font-medium text-slate-300 font-mono">{label}</h3>
+            {cancelled && !isGenerating && (
+              <span className="text-xs text-amber-400/80 font-mono">STOPPED</span>
+            )}
+            {demo && (
+              <span className="text-xs text-amber-300/80 font-mono">DEMO</span>
+            )}
           </div>
+
+          {candidateCount > 1 && !isGenerating && (
+            <div className="flex items-center space-x-1 text-sm text-slate-400 font-mono">
+              <button
+                onClick={() => onCandidateChange?.(candidateIndex - 1)}
+                disabled={candidateIndex === 0}
+                className="p-1 rounded hover:text-slate-300 disabled:opacity-30"
+                aria-label="Previous candidate"
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+              </button>
+              <span>{candidateIndex + 1}/{candidateCount}</span>
+              <button
+                onClick={() => onCandidateChange?.(candidateIndex + 1)}
+                disabled={candidateIndex === candidateCount - 1}
+                className="p-1 rounded hover:text-slate-300 disabled:opacity-30"
+                aria-label="Next candidate"
+              >
+                <ChevronRight className="h-3.5 w-3.5" />
+              </button>
+              {onPrefer && (
+                <button
+                  onClick={onPrefer}
+                  disabled={isPreferred}
+                  className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${
+                    isPreferred ? 'text-emerald-400/80' : 'glass-button hover:text-slate-300'
+                  }`}
+                  title={isPreferred ? 'This candidate continues the conversation' : 'Use this candidate in the conversation'}
+                >
+                  {isPreferred ? <CheckCircle2 className="h-3 w-3" /> : <Circle className="h-3 w-3" />}
+                  <span>{isPreferred ? 'PREFERRED' : 'PREFER'}</span>
+                </button>
+              )}
+            </div>
+          )}
           
-          {(inferenceTime || tokensUsed) && (
+          {showStats && (
             <div className="flex items-center space-x-3 text-sm text-slate-400">
               {inferenceTime && (
                 <div className="flex items-center space-x-2 glass-button px-2 py-1 rounded font-mono">
@@ -104,17 +229,67 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
                   <span>{inferenceTime}ms</span>
                 </div>
               )}
+              {timeToFirstToken !== undefined && (
+                <div
+                  className="flex items-center space-x-2 glass-button px-2 py-1 rounded font-mono"
+                  title="Time to first token"
+                >
+                  <Timer className="h-3 w-3 text-slate-400" />
+                  <span>TTFT {timeToFirstToken}ms</span>
+                </div>
+              )}
               {tokensUsed && (
                 <div className="flex items-center space-x-2 glass-button px-2 py-1 rounded font-mono">
                   <Zap className="h-3 w-3 text-slate-400" />
                   <span>{tokensUsed}</span>
                 </div>
               )}
+              {perplexity !== undefined && (
+                <div
+                  className="flex items-center space-x-2 glass-button px-2 py-1 rounded font-mono"
+                  title="Perplexity of the response"
+                >
+                  <BarChart3 className="h-3 w-3 text-slate-400" />
+                  <span>PPL {perplexity.toFixed(2)}</span>
+                </div>
+              )}
             </div>
           )}
         </div>
         
         <div className="flex items-center space-x-1">
+          {hasLogprobs && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowProbabilities(!showProbabilities)}
+              className={`glass-button p-2 ${showProbabilities ? 'text-blue-300' : 'text-slate-400 hover:text-slate-300'}`}
+              title={showProbabilities ? 'Hide token probabilities' : 'Show token probabilities'}
+            >
+              <BarChart3 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleRenderMode}
+            className="glass-button text-slate-400 hover:text-slate-300 p-2"
+            title={renderMode === 'markdown' ? 'Show raw text' : 'Render Markdown'}
+          >
+            {renderMode === 'markdown' ? <Type className="h-4 w-4" /> : <FileCode2 className="h-4 w-4" />}
+          </Button>
+          {onRegenerate && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRegenerate}
+              className="glass-button text-slate-400 hover:text-slate-300 p-2"
+              disabled={isGenerating}
+              title="Regenerate"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -147,7 +322,7 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
 
       {/* Content */}
       <div className="p-4 lg:p-5">
-        {isGenerating ? (
+        {isGenerating && !isStreaming ? (
           <div className="flex items-center justify-center py-12">
             <div className="text-center space-y-4">
               <motion.div
@@ -172,18 +347,19 @@ export const OutputBox = ({ content, isGenerating, inferenceTime, tokensUsed }:
           </div>
         ) : (
           <div className="surface-secondary rounded-lg p-4 lg:p-5 border border-slate-800/30">
-            <div className="whitespace-pre-wrap text-slate-300 leading-relaxed text-sm lg:text-base">
-              {displayedContent}
-              {isTyping && (
-                <motion.span
-                  animate={{ opacity: [0.3, 1, 0.3] }}
-                  transition={{ duration: 0.8, repeat: Infinity }}
-                  className="text-slate-400 font-bold"
-                >
-                  ▊
-                </motion.span>
-              )}
-            </div>
+            {showProbabilities && hasLogprobs && !isTyping ? (
+              <TokenProbabilities logprobs={logprobs} />
+            ) : renderMode === 'markdown' ? (
+              <>
+                <MarkdownContent content={visibleContent} highlight={!isTyping && !isStreaming} />
+                {(isTyping || isStreaming) && cursor}
+              </>
+            ) : (
+              <div className="whitespace-pre-wrap text-slate-300 leading-relaxed text-sm lg:text-base">
+                {visibleContent}
+                {(isTyping || isStreaming) && cursor}
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -2,7 +2,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Send, Loader2, Terminal } from 'lucide-react';
+import { Send, Loader2, Terminal, Square, LibraryBig } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useIsMobile } from '@/hooks/use-mobile';
 
@@ -10,10 +10,13 @@ interface PromptInputProps {
   value: string;
   onChange: (value: string) => void;
   onGenerate: () => void;
+  onStop?: () => void;
   isGenerating: boolean;
+  /** Opens the prompt template library. */
+  onOpenTemplates?: () => void;
 }
 
-export const PromptInput = ({ value, onChange, onGenerate, isGenerating }: PromptInputProps) => {
+export const PromptInput = ({ value, onChange, onGenerate, onStop, isGenerating, onOpenTemplates }: PromptInputProps) => {
   const [charCount, setCharCount] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isFocused, setIsFocused] = useState(false);
@@ -33,6 +36,23 @@ export const PromptInput = ({ value, onChange, onGenerate, isGenerating }: Promp
     }
   }, [isMobile]);
 
+  // The textarea is disabled mid-run, so listen for Escape on the window
+  useEffect(() => {
+    if (!isGenerating || !onStop) return;
+
+    const handleEscape = (e: KeyboardEvent) => {
+      // Escape inside a dialog closes the dialog, not the run
+      const inDialog = e.target instanceof Element && e.target.closest('[role="dialog"]');
+      if (e.key === 'Escape' && !e.defaultPrevented && !inDialog) {
+        e.preventDefault();
+        onStop();
+      }
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isGenerating, onStop]);
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
       e.preventDefault();
@@ -55,6 +75,19 @@ export const PromptInput = ({ value, onChange, onGenerate, isGenerating }: Promp
               className="w-1.5 h-1.5 bg-slate-400 rounded-full subtle-pulse"
             />
           )}
+          {onOpenTemplates && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenTemplates}
+              disabled={isGenerating}
+              className="ml-auto h-7 glass-button text-slate-400 hover:text-slate-300 font-mono text-xs"
+              title="Prompt templates (⌘K)"
+            >
+              <LibraryBig className="h-3.5 w-3.5 mr-2" />
+              TEMPLATES
+            </Button>
+          )}
         </div>
         
         <div className={`relative glass-panel rounded-lg overflow-hidden transition-all duration-200 ${
@@ -89,47 +122,61 @@ export const PromptInput = ({ value, onChange, onGenerate, isGenerating }: Promp
         </div>
       </div>
 
-      {/* Generate Button */}
+      {/* Generate / Stop Buttons */}
       <div className="flex justify-between items-center">
         <div className="text-xs text-slate-500 font-mono">
           {!isMobile && (
             <div className="flex items-center space-x-4">
-              <span>⌘+Enter to execute</span>
+              <span>{isGenerating ? 'Esc to stop' : '⌘+Enter to execute'}</span>
               <div className="w-px h-3 bg-slate-600/50"></div>
-              <span className="text-slate-400">Ready</span>
+              <span className="text-slate-400">{isGenerating ? 'Running' : 'Ready'}</span>
             </div>
           )}
         </div>
         
-        <Button
-          onClick={onGenerate}
-          disabled={isGenerating || !value.trim()}
-          className={`btn-accent text-slate-200 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed font-mono ${
-            isMobile 
-              ? 'px-6 py-3 text-sm' 
-              : 'px-8 py-3 text-sm'
-          } ${!isGenerating && value.trim() ? 'accent-primary' : ''}`}
-        >
-          <div className="flex items-center">
-            {isGenerating ? (
-              <>
-                <motion.div
-                  animate={{ rotate: 360 }}
-                  transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-                  className="mr-2"
-                >
-                  <Loader2 className={isMobile ? 'h-4 w-4' : 'h-4 w-4'} />
-                </motion.div>
-                PROCESSING
-              </>
-            ) : (
-              <>
-                <Send className={`${isMobile ? 'h-4 w-4' : 'h-4 w-4'} mr-2`} />
-                EXECUTE
-              </>
-            )}
-          </div>
-        </Button>
+        <div className="flex items-center space-x-2">
+          {isGenerating && onStop && (
+            <Button
+              onClick={onStop}
+              variant="ghost"
+              className={`glass-button text-amber-300/90 hover:text-amber-200 font-mono ${
+                isMobile ? 'px-4 py-3 text-sm' : 'px-5 py-3 text-sm'
+              }`}
+            >
+              <Square className="h-3.5 w-3.5 mr-2 fill-current" />
+              STOP
+            </Button>
+          )}
+          <Button
+            onClick={onGenerate}
+            disabled={isGenerating || !value.trim()}
+            className={`btn-accent text-slate-200 transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed font-mono ${
+              isMobile 
+                ? 'px-6 py-3 text-sm' 
+                : 'px-8 py-3 text-sm'
+            } ${!isGenerating && value.trim() ? 'accent-primary' : ''}`}
+          >
+            <div className="flex items-center">
+              {isGenerating ? (
+                <>
+                  <motion.div
+                    animate={{ rotate: 360 }}
+                    transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
+                    className="mr-2"
+                  >
+                    <Loader2 className={isMobile ? 'h-4 w-4' : 'h-4 w-4'} />
+                  </motion.div>
+                  PROCESSING
+                </>
+              ) : (
+                <>
+                  <Send className={`${isMobile ? 'h-4 w-4' : 'h-4 w-4'} mr-2`} />
+                  EXECUTE
+                </>
+              )}
+            </div>
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  type ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Loader2, RotateCcw, Wand2 } from 'lucide-react';
+import type { SamplingParams } from '@/lib/domain';
+import { type TokenScore, SYNTHETIC_CONTEXT, SYNTHETIC_DISTRIBUTION, applySampling } from '@/lib/sampling';
+
+export interface FetchedDistribution {
+  context: string;
+  distribution: TokenScore[];
+}
+
+interface SamplingExplainerProps {
+  params: Pick<SamplingParams, 'temperature' | 'topK' | 'topP'>;
+  /** Fetches the backend's next-token distribution for the current prompt. */
+  onFetchDistribution?: () => Promise<FetchedDistribution>;
+}
+
+const chartConfig = {
+  original: { label: 'Model', color: 'hsl(215 16% 47%)' },
+  adjusted: { label: 'After sampling', color: 'hsl(199 89% 48%)' },
+} satisfies ChartConfig;
+
+const showToken = (token: string) => JSON.stringify(token).slice(1, -1) || '∅';
+
+export const SamplingExplainer = ({ params, onFetchDistribution }: SamplingExplainerProps) => {
+  const [fetched, setFetched] = useState<FetchedDistribution | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [fetchError, setFetchError] = useState<string | null>(null);
+
+  const distribution = fetched?.distribution ?? SYNTHETIC_DISTRIBUTION;
+  const context = fetched?.context ?? SYNTHETIC_CONTEXT;
+
+  const data = useMemo(
+    () => applySampling(distribution, params).map((entry) => ({
+      token: showToken(entry.token),
+      original: Number((entry.original * 100).toFixed(1)),
+      adjusted: Number((entry.adjusted * 100).toFixed(1)),
+    })),
+    [distribution, params]
+  );
+  const keptCount = data.filter((entry) => entry.adjusted > 0).length;
+
+  const handleFetch = async () => {
+    if (!onFetchDistribution) return;
+    setIsFetching(true);
+    setFetchError(null);
+    try {
+      setFetched(await onFetchDistribution());
+    } catch (error) {
+      setFetchError(error instanceof Error ? error.message : 'Could not fetch a distribution.');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <p className="text-xs text-slate-400 min-w-0">
+          Next token after <span className="font-mono text-slate-300">“{context.length > 60 ? `…${context.slice(-60)}` : context}”</span>
+        </p>
+        <Badge variant="outline" className="text-xs shrink-0">
+          {fetched ? 'backend' : 'example'}
+        </Badge>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <BarChart data={data} margin={{ top: 4, right: 0, left: -24, bottom: 0 }} barGap={0}>
+          <CartesianGrid vertical={false} strokeOpacity={0.2} />
+          <XAxis
+            dataKey="token"
+            tickLine={false}
+            axisLine={false}
+            interval={0}
+            angle={-45}
+            textAnchor="end"
+            height={48}
+            tick={{ fontSize: 10 }}
+          />
+          <YAxis tickLine={false} axisLine={false} tick={{ fontSize: 10 }} unit="%" />
+          <ChartTooltip content={<ChartTooltipContent indicator="dot" />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="original" fill="var(--color-original)" fillOpacity={0.5} radius={[2, 2, 0, 0]} isAnimationActive={false} />
+          <Bar dataKey="adjusted" fill="var(--color-adjusted)" radius={[2, 2, 0, 0]} isAnimationActive={false} />
+        </BarChart>
+      </ChartContainer>
+
+      <p className="text-xs text-slate-400">
+        {keptCount} of {data.length} tokens can be sampled. Lower temperature sharpens the distribution, top-k keeps the
+        {' '}{params.topK} most likely tokens and top-p keeps the smallest set covering {Math.round(params.topP * 100)}%.
+      </p>
+
+      {onFetchDistribution && (
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleFetch}
+            disabled={isFetching}
+            className="h-7 text-xs text-slate-400 hover:text-white"
+          >
+            {isFetching ? <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" /> : <Wand2 className="h-3.5 w-3.5 mr-2" />}
+            Use current prompt
+          </Button>
+          {fetched && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setFetched(null)}
+              className="h-7 text-xs text-slate-400 hover:text-white"
+            >
+              <RotateCcw className="h-3.5 w-3.5 mr-2" />
+              Example
+            </Button>
+          )}
+        </div>
+      )}
+      {fetchError && <p className="text-xs text-red-400">{fetchError}</p>}
+    </div>
+  );
+};
@@ -1,55 +1,195 @@
 
+import { useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { RotateCcw, Thermometer, Hash, Target, Layers } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import {
+  RotateCcw,
+  Thermometer,
+  Hash,
+  Target,
+  Layers,
+  MessagesSquare,
+  Dices,
+  ChevronUp,
+  ChevronDown,
+  Pencil,
+  Trash2,
+  Plus,
+  Check,
+  X,
+  Download,
+  Upload,
+  Ban,
+  Repeat,
+  Shuffle,
+  Ruler,
+  BarChart3,
+  ChartNoAxesColumn,
+} from 'lucide-react';
 import { motion } from 'framer-motion';
+import {
+  type ModelConfig,
+  type SamplingParams,
+  type SamplingPreset,
+  CUSTOM_PRESET,
+  DEFAULT_MODEL_CONFIG,
+  MAX_STOP_SEQUENCES,
+} from '@/lib/domain';
+import { MAX_CANDIDATES } from '@/lib/candidates';
+import { applyConfigChanges } from '@/lib/presets';
+import { MAX_TOP_LOGPROBS } from '@/lib/logprobs';
+import { type FetchedDistribution, SamplingExplainer } from '@/components/SamplingExplainer';
 
-interface ModelConfig {
-  temperature: number;
-  maxTokens: number;
-  topK: number;
-  topP: number;
-  preset: 'creative' | 'balanced' | 'precise';
-}
+const MAX_SEED = 2 ** 32 - 1;
+
+const PENALTIES: Array<{ key: 'repetitionPenalty' | 'presencePenalty' | 'frequencyPenalty'; label: string; min: number; max: number; step: number }> = [
+  { key: 'repetitionPenalty', label: 'Repetition', min: 1, max: 2, step: 0.05 },
+  { key: 'presencePenalty', label: 'Presence', min: -2, max: 2, step: 0.1 },
+  { key: 'frequencyPenalty', label: 'Frequency', min: -2, max: 2, step: 0.1 },
+];
+
+// Lets a newline be typed into the single-line stop sequence input
+const parseStopSequence = (value: string) => value.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+const formatStopSequence = (value: string) => JSON.stringify(value).slice(1, -1);
 
 interface SettingsPanelProps {
   config: ModelConfig;
   onConfigChange: (config: ModelConfig) => void;
+  /** Built-in presets first, then the user's own in their chosen order. */
+  presets: SamplingPreset[];
+  onCreatePreset: (name: string, params: SamplingParams) => SamplingPreset;
+  onUpdatePreset: (preset: SamplingPreset) => void;
+  onRemovePreset: (id: string) => void;
+  onMovePreset: (id: string, offset: -1 | 1) => void;
+  onImportPresets: (file: File) => void;
+  onExportPresets: () => void;
+  /** Lets the sampling preview use the backend's distribution for the current prompt. */
+  onFetchDistribution?: () => Promise<FetchedDistribution>;
+  /** Extra sections rendered above the model settings, e.g. connection profiles. */
+  children?: React.ReactNode;
 }
 
-const presets = {
-  creative: { temperature: 1.2, maxTokens: 200, topK: 80, topP: 0.95 },
-  balanced: { temperature: 0.7, maxTokens: 150, topK: 50, topP: 0.9 },
-  precise: { temperature: 0.3, maxTokens: 100, topK: 20, topP: 0.8 },
-};
+export const SettingsPanel = ({
+  config,
+  onConfigChange,
+  presets,
+  onCreatePreset,
+  onUpdatePreset,
+  onRemovePreset,
+  onMovePreset,
+  onImportPresets,
+  onExportPresets,
+  onFetchDistribution,
+  children,
+}: SettingsPanelProps) => {
+  const [newPresetName, setNewPresetName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [newStop, setNewStop] = useState('');
+  const [seedInput, setSeedInput] = useState(config.seed?.toString() ?? '');
+  const [lastSeed, setLastSeed] = useState(config.seed);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow seeds set from outside, e.g. when a history entry is re-applied
+  if (config.seed !== lastSeed) {
+    setLastSeed(config.seed);
+    setSeedInput(config.seed?.toString() ?? '');
+  }
 
-export const SettingsPanel = ({ config, onConfigChange }: SettingsPanelProps) => {
-  const handlePresetChange = (preset: keyof typeof presets) => {
+  const activePreset = presets.find(preset => preset.id === config.preset);
+  const customPresets = presets.filter(preset => !preset.builtIn);
+  const currentParams: SamplingParams = {
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    topK: config.topK,
+    topP: config.topP,
+  };
+
+  const handlePresetChange = (preset: SamplingPreset) => {
     onConfigChange({
       ...config,
-      ...presets[preset],
-      preset,
+      ...preset.params,
+      preset: preset.id,
     });
   };
 
+  const handleSavePreset = () => {
+    if (!newPresetName.trim()) return;
+    const preset = onCreatePreset(newPresetName, currentParams);
+    onConfigChange({ ...config, preset: preset.id });
+    setNewPresetName('');
+  };
+
+  const startEditing = (preset: SamplingPreset) => {
+    setEditingId(preset.id);
+    setEditName(preset.name);
+  };
+
+  const handleRename = (preset: SamplingPreset) => {
+    if (editName.trim()) onUpdatePreset({ ...preset, name: editName.trim() });
+    setEditingId(null);
+  };
+
+  const handleOverwrite = (preset: SamplingPreset) => {
+    onUpdatePreset({ ...preset, params: currentParams });
+    onConfigChange({ ...config, preset: preset.id });
+    setEditingId(null);
+  };
+
+  const handleRemove = (preset: SamplingPreset) => {
+    onRemovePreset(preset.id);
+    if (config.preset === preset.id) onConfigChange({ ...config, preset: CUSTOM_PRESET });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImportPresets(file);
+    e.target.value = '';
+  };
+
+  // The system prompt is edited above the input, not here, so a reset keeps it
   const handleReset = () => {
-    onConfigChange({
-      temperature: 0.7,
-      maxTokens: 150,
-      topK: 50,
-      topP: 0.9,
-      preset: 'balanced',
-    });
+    onConfigChange({ ...DEFAULT_MODEL_CONFIG, systemPrompt: config.systemPrompt });
   };
 
   const updateConfig = (key: keyof ModelConfig, value: number) => {
-    onConfigChange({
-      ...config,
-      [key]: value,
-    });
+    onConfigChange(applyConfigChanges(config, { [key]: value }, presets));
+  };
+
+  const stopToAdd = parseStopSequence(newStop);
+  const canAddStop = stopToAdd !== ''
+    && !config.stop.includes(stopToAdd)
+    && config.stop.length < MAX_STOP_SEQUENCES;
+
+  const handleAddStop = () => {
+    if (!canAddStop) return;
+    onConfigChange({ ...config, stop: [...config.stop, stopToAdd] });
+    setNewStop('');
+  };
+
+  const handleRemoveStop = (value: string) => {
+    onConfigChange({ ...config, stop: config.stop.filter(stop => stop !== value) });
+  };
+
+  const seedValue = Number(seedInput);
+  const seedInvalid = seedInput.trim() !== ''
+    && (!Number.isInteger(seedValue) || seedValue < 0 || seedValue > MAX_SEED);
+
+  const handleSeedChange = (value: string) => {
+    setSeedInput(value);
+    const seed = value.trim() === '' ? null : Number(value);
+    if (seed === null || (Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED)) {
+      setLastSeed(seed);
+      onConfigChange({ ...config, seed });
+    }
+  };
+
+  const handleRandomSeed = () => {
+    handleSeedChange(String(Math.floor(Math.random() * MAX_SEED)));
   };
 
   return (
@@ -69,35 +209,168 @@ export const SettingsPanel = ({ config, onConfigChange }: SettingsPanelProps) =>
         </Button>
       </div>
 
+      {children && (
+        <>
+          {children}
+          <Separator className="bg-slate-700" />
+        </>
+      )}
+
       {/* Presets */}
       <Card className="bg-slate-800/50 border-slate-700 p-4">
-        <h3 className="text-sm font-medium text-slate-300 mb-3">Presets</h3>
-        <div className="grid grid-cols-1 gap-2">
-          {Object.entries(presets).map(([key, preset]) => (
-            <motion.button
-              key={key}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => handlePresetChange(key as keyof typeof presets)}
-              className={`p-3 rounded-lg border text-left transition-all ${
-                config.preset === key
-                  ? 'border-blue-400 bg-blue-400/10 text-blue-300'
-                  : 'border-slate-600 bg-slate-700/50 text-slate-300 hover:border-slate-500'
-              }`}
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-slate-300">Presets</h3>
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              className="h-7 w-7 p-0 text-slate-400 hover:text-white"
+              title="Import presets"
+            >
+              <Upload className="h-3.5 w-3.5" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onExportPresets}
+              disabled={customPresets.length === 0}
+              className="h-7 w-7 p-0 text-slate-400 hover:text-white"
+              title="Export your presets"
             >
-              <div className="flex items-center justify-between">
-                <span className="font-medium capitalize">{key}</span>
-                {config.preset === key && (
-                  <Badge variant="secondary" className="bg-blue-400/20 text-blue-300">
-                    Active
-                  </Badge>
+              <Download className="h-3.5 w-3.5" />
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 gap-2">
+          {presets.map((preset) => {
+            const isActive = config.preset === preset.id;
+            const customIndex = customPresets.indexOf(preset);
+
+            if (editingId === preset.id) {
+              return (
+                <div key={preset.id} className="p-3 rounded-lg border border-blue-400/60 bg-slate-700/50 space-y-2">
+                  <div className="flex items-center space-x-1">
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename(preset)}
+                      className="h-8 text-sm bg-slate-800/50 border-slate-600"
+                      autoFocus
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => handleRename(preset)} className="h-8 w-8 p-0" title="Save name">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="h-8 w-8 p-0" title="Cancel">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleOverwrite(preset)}
+                    className="w-full text-xs"
+                  >
+                    Replace values with current sliders
+                  </Button>
+                </div>
+              );
+            }
+
+            return (
+              <div key={preset.id} className="flex items-stretch gap-1">
+                <motion.button
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                  onClick={() => handlePresetChange(preset)}
+                  className={`flex-1 min-w-0 p-3 rounded-lg border text-left transition-all ${
+                    isActive
+                      ? 'border-blue-400 bg-blue-400/10 text-blue-300'
+                      : 'border-slate-600 bg-slate-700/50 text-slate-300 hover:border-slate-500'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium truncate">{preset.name}</span>
+                    {isActive && (
+                      <Badge variant="secondary" className="bg-blue-400/20 text-blue-300">
+                        Active
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-slate-400 mt-1">
+                    T: {preset.params.temperature} • Tokens: {preset.params.maxTokens}
+                  </div>
+                </motion.button>
+                {!preset.builtIn && (
+                  <div className="flex flex-col justify-center">
+                    <button
+                      onClick={() => onMovePreset(preset.id, -1)}
+                      disabled={customIndex === 0}
+                      className="p-0.5 text-slate-500 hover:text-slate-300 disabled:opacity-30"
+                      aria-label={`Move ${preset.name} up`}
+                    >
+                      <ChevronUp className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      onClick={() => startEditing(preset)}
+                      className="p-0.5 text-slate-500 hover:text-slate-300"
+                      aria-label={`Edit ${preset.name}`}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => handleRemove(preset)}
+                      className="p-0.5 text-slate-500 hover:text-red-400"
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                    <button
+                      onClick={() => onMovePreset(preset.id, 1)}
+                      disabled={customIndex === customPresets.length - 1}
+                      className="p-0.5 text-slate-500 hover:text-slate-300 disabled:opacity-30"
+                      aria-label={`Move ${preset.name} down`}
+                    >
+                      <ChevronDown className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
                 )}
               </div>
-              <div className="text-xs text-slate-400 mt-1">
-                T: {preset.temperature} • Tokens: {preset.maxTokens}
-              </div>
-            </motion.button>
-          ))}
+            );
+          })}
+
+          {!activePreset && (
+            <div className="p-3 rounded-lg border border-dashed border-amber-400/40 text-xs text-amber-300/80">
+              Custom values: the sliders no longer match a preset.
+            </div>
+          )}
+
+          <div className="flex items-center space-x-1 pt-1">
+            <Input
+              placeholder="Save current as..."
+              value={newPresetName}
+              onChange={(e) => setNewPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              className="h-8 text-sm bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleSavePreset}
+              disabled={!newPresetName.trim()}
+              className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+              title="Save as preset"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </Card>
 
@@ -183,13 +456,228 @@ export const SettingsPanel = ({ config, onConfigChange }: SettingsPanelProps) =>
         </p>
       </Card>
 
+      {/* Sampling Preview */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <ChartNoAxesColumn className="h-4 w-4 text-sky-400" />
+          <h3 className="text-sm font-medium text-slate-300">Sampling Preview</h3>
+        </div>
+        <SamplingExplainer params={config} onFetchDistribution={onFetchDistribution} />
+      </Card>
+
+      {/* Context Window */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <MessagesSquare className="h-4 w-4 text-pink-400" />
+          <h3 className="text-sm font-medium text-slate-300">Context Window</h3>
+          <Badge variant="outline" className="text-xs">{config.contextTurns}</Badge>
+        </div>
+        <Slider
+          value={[config.contextTurns]}
+          onValueChange={([value]) => updateConfig('contextTurns', value)}
+          max={20}
+          min={0}
+          step={1}
+          className="mb-2"
+        />
+        <p className="text-xs text-slate-400">
+          Previous exchanges sent with each prompt. Older turns are dropped; 0 disables memory.
+        </p>
+      </Card>
+
+      {/* Candidates */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Dices className="h-4 w-4 text-yellow-400" />
+          <h3 className="text-sm font-medium text-slate-300">Candidates</h3>
+          <Badge variant="outline" className="text-xs">{config.candidates}</Badge>
+        </div>
+        <Slider
+          value={[config.candidates]}
+          onValueChange={([value]) => updateConfig('candidates', value)}
+          max={MAX_CANDIDATES}
+          min={1}
+          step={1}
+          className="mb-2"
+        />
+        <p className="text-xs text-slate-400">
+          Responses sampled per prompt. Page through them and mark the one to keep in the conversation.
+        </p>
+      </Card>
+
+      <Separator className="bg-slate-700" />
+
+      {/* Stop Sequences */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Ban className="h-4 w-4 text-red-400" />
+          <h3 className="text-sm font-medium text-slate-300">Stop Sequences</h3>
+          <Badge variant="outline" className="text-xs">{config.stop.length}/{MAX_STOP_SEQUENCES}</Badge>
+        </div>
+        {config.stop.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-2">
+            {config.stop.map((stop) => (
+              <Badge key={stop} variant="secondary" className="font-mono text-xs bg-slate-700 text-slate-300 pr-1">
+                <span className="max-w-[10rem] truncate">{formatStopSequence(stop)}</span>
+                <button
+                  onClick={() => handleRemoveStop(stop)}
+                  className="ml-1 text-slate-500 hover:text-slate-300"
+                  aria-label={`Remove stop sequence ${formatStopSequence(stop)}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center space-x-1 mb-2">
+          <Input
+            placeholder={config.stop.length < MAX_STOP_SEQUENCES ? 'e.g. ###  or  \\n\\n' : 'Limit reached'}
+            value={newStop}
+            onChange={(e) => setNewStop(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddStop()}
+            disabled={config.stop.length >= MAX_STOP_SEQUENCES}
+            className="h-8 text-sm font-mono bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-500"
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleAddStop}
+            disabled={!canAddStop}
+            className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+            title="Add stop sequence"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-xs text-slate-400">
+          Generation ends when the model outputs any of these. Type \n for a newline.
+        </p>
+      </Card>
+
+      {/* Penalties */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Repeat className="h-4 w-4 text-teal-400" />
+          <h3 className="text-sm font-medium text-slate-300">Penalties</h3>
+        </div>
+        <div className="space-y-4 mb-2">
+          {PENALTIES.map((penalty) => (
+            <div key={penalty.key}>
+              <div className="flex items-center justify-between mb-2 text-xs">
+                <span className="text-slate-400">{penalty.label}</span>
+                <Badge variant="outline" className="text-xs">{config[penalty.key]}</Badge>
+              </div>
+              <Slider
+                value={[config[penalty.key]]}
+                onValueChange={([value]) => updateConfig(penalty.key, Number(value.toFixed(2)))}
+                max={penalty.max}
+                min={penalty.min}
+                step={penalty.step}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400">
+          Discourage repeated tokens. Repetition 1 and presence/frequency 0 leave sampling unchanged.
+        </p>
+      </Card>
+
+      {/* Seed */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Shuffle className="h-4 w-4 text-indigo-400" />
+          <h3 className="text-sm font-medium text-slate-300">Seed</h3>
+          <Badge variant="outline" className="text-xs">{config.seed ?? 'random'}</Badge>
+        </div>
+        <div className="flex items-center space-x-1 mb-2">
+          <Input
+            type="number"
+            min={0}
+            max={MAX_SEED}
+            step={1}
+            placeholder="Random"
+            value={seedInput}
+            onChange={(e) => handleSeedChange(e.target.value)}
+            aria-invalid={seedInvalid}
+            className={`h-8 text-sm font-mono bg-slate-800/50 text-white placeholder:text-slate-500 ${
+              seedInvalid ? 'border-red-500/60' : 'border-slate-700'
+            }`}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRandomSeed}
+            className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+            title="Pick a random seed"
+          >
+            <Dices className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleSeedChange('')}
+            disabled={config.seed === null && seedInput === ''}
+            className="h-8 w-8 p-0 text-slate-400 hover:text-white"
+            title="Clear seed"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className={`text-xs ${seedInvalid ? 'text-red-400' : 'text-slate-400'}`}>
+          {seedInvalid
+            ? `Seed must be a whole number between 0 and ${MAX_SEED}.`
+            : 'Fix the seed to make sampled output reproducible. Leave empty for a new sample each run.'}
+        </p>
+      </Card>
+
+      {/* Min Length */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <Ruler className="h-4 w-4 text-lime-400" />
+          <h3 className="text-sm font-medium text-slate-300">Min Length</h3>
+          <Badge variant="outline" className="text-xs">{Math.min(config.minLength, config.maxTokens)}</Badge>
+        </div>
+        <Slider
+          value={[Math.min(config.minLength, config.maxTokens)]}
+          onValueChange={([value]) => updateConfig('minLength', value)}
+          max={config.maxTokens}
+          min={0}
+          step={10}
+          className="mb-2"
+        />
+        <p className="text-xs text-slate-400">
+          Tokens generated before the model may stop. Capped at max tokens.
+        </p>
+      </Card>
+
+      {/* Token Probabilities */}
+      <Card className="bg-slate-800/50 border-slate-700 p-4">
+        <div className="flex items-center space-x-2 mb-3">
+          <BarChart3 className="h-4 w-4 text-sky-400" />
+          <h3 className="text-sm font-medium text-slate-300">Token Probabilities</h3>
+          <Badge variant="outline" className="text-xs">{config.topLogprobs || 'Off'}</Badge>
+        </div>
+        <Slider
+          value={[config.topLogprobs]}
+          onValueChange={([value]) => updateConfig('topLogprobs', value)}
+          max={MAX_TOP_LOGPROBS}
+          min={0}
+          step={1}
+          className="mb-2"
+        />
+        <p className="text-xs text-slate-400">
+          Requests logprobs with this many alternatives per token, for the probability view. Needs backend support.
+        </p>
+      </Card>
+
       {/* Current Config Summary */}
       <Card className="bg-slate-800/50 border-slate-700 p-4">
         <h3 className="text-sm font-medium text-slate-300 mb-3">Current Configuration</h3>
         <div className="space-y-2 text-xs">
           <div className="flex justify-between">
             <span className="text-slate-400">Preset:</span>
-            <span className="text-slate-300 capitalize">{config.preset}</span>
+            <span className="text-slate-300">{activePreset?.name ?? 'Custom'}</span>
           </div>
           <div className="flex justify-between">
             <span className="text-slate-400">Temperature:</span>
@@ -207,6 +695,36 @@ export const SettingsPanel = ({ config, onConfigChange }: SettingsPanelProps) =>
             <span className="text-slate-400">Top-P:</span>
             <span className="text-slate-300">{config.topP}</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Context Turns:</span>
+            <span className="text-slate-300">{config.contextTurns}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Candidates:</span>
+            <span className="text-slate-300">{config.candidates}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Stop Sequences:</span>
+            <span className="text-slate-300">{config.stop.length || 'None'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Penalties:</span>
+            <span className="text-slate-300">
+              {config.repetitionPenalty} / {config.presencePenalty} / {config.frequencyPenalty}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Seed:</span>
+            <span className="text-slate-300">{config.seed ?? 'Random'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Min Length:</span>
+            <span className="text-slate-300">{Math.min(config.minLength, config.maxTokens)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Logprobs:</span>
+            <span className="text-slate-300">{config.topLogprobs ? `Top ${config.topLogprobs}` : 'Off'}</span>
+          </div>
         </div>
       </Card>
     </div>
@@ -0,0 +1,63 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, ScrollText, X } from 'lucide-react';
+import { MAX_SYSTEM_PROMPT_LENGTH } from '@/lib/domain';
+
+interface SystemPromptEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export const SystemPromptEditor = ({ value, onChange, disabled = false }: SystemPromptEditorProps) => {
+  const [open, setOpen] = useState(value.trim() !== '');
+  const isSet = value.trim() !== '';
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="glass-panel rounded-lg border-slate-700/40">
+      <div className="flex items-center justify-between px-4 py-2">
+        <CollapsibleTrigger asChild>
+          <button className="flex items-center space-x-3 min-w-0 text-left">
+            <ScrollText className="h-4 w-4 text-slate-400 shrink-0" />
+            <span className="text-sm font-medium text-slate-300 font-mono">SYSTEM</span>
+            {!open && (
+              <span className="text-xs text-slate-500 truncate">
+                {isSet ? value.trim() : 'No instruction set'}
+              </span>
+            )}
+            <ChevronDown className={`h-3.5 w-3.5 text-slate-500 shrink-0 transition-transform ${open ? 'rotate-180' : ''}`} />
+          </button>
+        </CollapsibleTrigger>
+        {isSet && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange('')}
+            disabled={disabled}
+            className="h-7 w-7 p-0 text-slate-400 hover:text-slate-300"
+            title="Clear system prompt"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      <CollapsibleContent>
+        <div className="relative px-4 pb-3">
+          <Textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+            placeholder="Instruction sent ahead of every prompt, e.g. You are a concise assistant..."
+            className="resize-y min-h-[72px] max-h-[200px] bg-slate-800/30 border-slate-700/50 text-sm text-slate-200 placeholder:text-slate-500 leading-relaxed"
+            disabled={disabled}
+          />
+          <p className="mt-1 text-right text-xs text-slate-500 font-mono">
+            {value.length}/{MAX_SYSTEM_PROMPT_LENGTH}
+          </p>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { FilePlus2, Trash2 } from 'lucide-react';
+import { type PromptTemplate, DEFAULT_TEMPLATE_CATEGORY, extractVariables } from '@/lib/templates';
+
+interface TemplateEditorDialogProps {
+  /** Template to edit; one without an id (or a built-in) is saved as new. */
+  draft: Partial<PromptTemplate> | null;
+  categories: string[];
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: Pick<PromptTemplate, 'name' | 'category' | 'body'>, id?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const TemplateEditorDialog = ({ draft, categories, onOpenChange, onSave, onDelete }: TemplateEditorDialogProps) => {
+  const [fields, setFields] = useState({ name: '', category: '', body: '' });
+  const [source, setSource] = useState<Partial<PromptTemplate> | null>(null);
+
+  // Copy the draft into local fields each time the editor opens
+  if (draft !== source) {
+    setSource(draft);
+    setFields({
+      name: draft?.builtIn && draft.name ? `${draft.name} (copy)` : draft?.name ?? '',
+      category: draft?.category ?? '',
+      body: draft?.body ?? '',
+    });
+  }
+
+  if (!draft) return null;
+
+  const isExisting = !!draft.id && !draft.builtIn;
+  const variables = extractVariables(fields.body);
+  const canSave = fields.name.trim() !== '' && fields.body.trim() !== '';
+
+  const handleSave = () => {
+    if (!canSave) return;
+    onSave(
+      { name: fields.name.trim(), category: fields.category.trim() || DEFAULT_TEMPLATE_CATEGORY, body: fields.body },
+      isExisting ? draft.id : undefined
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FilePlus2 className="h-5 w-5 text-blue-400" />
+            <span>{isExisting ? 'Edit Template' : 'New Template'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Use {'{{name}}'} placeholders for the parts that change; you fill them in before each run.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="template-name">Name</Label>
+              <Input
+                id="template-name"
+                value={fields.name}
+                onChange={(e) => setFields((prev) => ({ ...prev, name: e.target.value }))}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="template-category">Category</Label>
+              <Input
+                id="template-category"
+                list="template-categories"
+                placeholder={DEFAULT_TEMPLATE_CATEGORY}
+                value={fields.category}
+                onChange={(e) => setFields((prev) => ({ ...prev, category: e.target.value }))}
+              />
+              <datalist id="template-categories">
+                {categories.map((category) => <option key={category} value={category} />)}
+              </datalist>
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="template-body">Prompt</Label>
+            <Textarea
+              id="template-body"
+              value={fields.body}
+              onChange={(e) => setFields((prev) => ({ ...prev, body: e.target.value }))}
+              rows={8}
+              placeholder={'Summarize {{text}} in {{length}}.'}
+              className="resize-y font-mono text-sm"
+            />
+            <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+              {variables.length === 0
+                ? 'No variables yet.'
+                : variables.map((name) => (
+                  <Badge key={name} variant="secondary" className="font-mono text-xs">{name}</Badge>
+                ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          {isExisting ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                onDelete(draft.id!);
+                onOpenChange(false);
+              }}
+              className="text-red-400 hover:text-red-300"
+            >
+              <Trash2 className="h-3.5 w-3.5 mr-2" />
+              Delete
+            </Button>
+          ) : <span />}
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!canSave}>
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
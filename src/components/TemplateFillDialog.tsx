@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { FileText, Pencil, Send } from 'lucide-react';
+import { type PromptTemplate, extractVariables, fillTemplate } from '@/lib/templates';
+
+interface TemplateFillDialogProps {
+  template: PromptTemplate | null;
+  onOpenChange: (open: boolean) => void;
+  /** Puts the filled prompt into the input for further editing. */
+  onInsert: (text: string) => void;
+  /** Runs the filled prompt straight away; omitted while a run is in progress. */
+  onRun?: (text: string) => void;
+  onEdit: (template: PromptTemplate) => void;
+}
+
+export const TemplateFillDialog = ({ template, onOpenChange, onInsert, onRun, onEdit }: TemplateFillDialogProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [templateId, setTemplateId] = useState<string | null>(null);
+
+  // Start with empty fields whenever a different template is opened
+  if ((template?.id ?? null) !== templateId) {
+    setTemplateId(template?.id ?? null);
+    setValues({});
+  }
+
+  if (!template) return null;
+
+  const variables = extractVariables(template.body);
+  const missing = variables.filter((name) => !values[name]?.trim());
+  const filled = fillTemplate(template.body, values);
+
+  const submit = (action: (text: string) => void) => {
+    if (missing.length > 0) return;
+    onOpenChange(false);
+    action(filled);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5 text-blue-400" />
+            <span>{template.name}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {variables.length > 0
+              ? `Fill in ${variables.length} ${variables.length === 1 ? 'variable' : 'variables'} to build the prompt.`
+              : 'This template has no variables.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div
+          className="space-y-4"
+          onKeyDown={(e) => {
+            if ((e.metaKey || e.ctrlKey) && e.key === 'Enter') {
+              e.preventDefault();
+              submit(onRun ?? onInsert);
+            }
+          }}
+        >
+          {variables.map((name, index) => (
+            <div key={name} className="space-y-1.5">
+              <Label htmlFor={`template-var-${name}`} className="font-mono text-xs">{name}</Label>
+              <Textarea
+                id={`template-var-${name}`}
+                value={values[name] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                rows={2}
+                autoFocus={index === 0}
+                className="resize-y text-sm"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1.5">
+            <span className="text-xs font-medium text-muted-foreground">Preview</span>
+            <pre className="rounded-lg border p-3 text-sm whitespace-pre-wrap font-sans max-h-60 overflow-y-auto">
+              {filled}
+            </pre>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="ghost" size="sm" onClick={() => onEdit(template)}>
+            <Pencil className="h-3.5 w-3.5 mr-2" />
+            {template.builtIn ? 'Copy and edit' : 'Edit template'}
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => submit(onInsert)} disabled={missing.length > 0}>
+              Insert
+            </Button>
+            {onRun && (
+              <Button size="sm" onClick={() => submit(onRun)} disabled={missing.length > 0}>
+                <Send className="h-3.5 w-3.5 mr-2" />
+                Run
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
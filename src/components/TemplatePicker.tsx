@@ -0,0 +1,125 @@
+import { useRef } from 'react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { Download, FilePlus2, FileText, Upload } from 'lucide-react';
+import { type PromptTemplate, extractVariables, templateCategories } from '@/lib/templates';
+
+interface TemplatePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templates: PromptTemplate[];
+  onSelect: (template: PromptTemplate) => void;
+  /** Opens the editor; `body` prefills it, e.g. with the current prompt. */
+  onCreate: (body?: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  canExport: boolean;
+  currentPrompt: string;
+}
+
+export const TemplatePicker = ({
+  open,
+  onOpenChange,
+  templates,
+  onSelect,
+  onCreate,
+  onImport,
+  onExport,
+  canExport,
+  currentPrompt,
+}: TemplatePickerProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const runAction = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <>
+      <CommandDialog open={open} onOpenChange={onOpenChange}>
+        <CommandInput placeholder="Search templates by name, category or text..." />
+        <CommandList>
+          <CommandEmpty>No templates found.</CommandEmpty>
+          {templateCategories(templates).map((category) => (
+            <CommandGroup key={category} heading={category}>
+              {templates
+                .filter((template) => template.category === category)
+                .map((template) => {
+                  const variables = extractVariables(template.body);
+                  return (
+                    <CommandItem
+                      key={template.id}
+                      value={template.id}
+                      keywords={[template.name, template.category, template.body]}
+                      onSelect={() => runAction(() => onSelect(template))}
+                      className="flex items-start gap-2"
+                    >
+                      <FileText className="mt-0.5 shrink-0 text-slate-400" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{template.name}</span>
+                          {!template.builtIn && (
+                            <Badge variant="outline" className="text-[10px] px-1 py-0">yours</Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {variables.length > 0
+                            ? variables.map((name) => `{{${name}}}`).join(' ')
+                            : template.body}
+                        </p>
+                      </div>
+                    </CommandItem>
+                  );
+                })}
+            </CommandGroup>
+          ))}
+          <CommandSeparator />
+          <CommandGroup heading="Library">
+            <CommandItem value="action-new" keywords={['New template']} onSelect={() => runAction(() => onCreate())}>
+              <FilePlus2 className="mr-2 text-slate-400" />
+              New template
+            </CommandItem>
+            {currentPrompt.trim() && (
+              <CommandItem value="action-save-current" keywords={['Save current prompt as template']} onSelect={() => runAction(() => onCreate(currentPrompt))}>
+                <FilePlus2 className="mr-2 text-slate-400" />
+                Save current prompt as template
+              </CommandItem>
+            )}
+            <CommandItem value="action-import" keywords={['Import templates']} onSelect={() => runAction(() => fileInputRef.current?.click())}>
+              <Upload className="mr-2 text-slate-400" />
+              Import templates...
+            </CommandItem>
+            {canExport && (
+              <CommandItem value="action-export" keywords={['Export templates']} onSelect={() => runAction(onExport)}>
+                <Download className="mr-2 text-slate-400" />
+                Export your templates
+              </CommandItem>
+            )}
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </>
+  );
+};
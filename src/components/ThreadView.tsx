@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { OutputBox } from '@/components/OutputBox';
+import { CompareView } from '@/components/CompareView';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { User, AlertTriangle, RotateCcw, ScrollText, Trash2 } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { ChatMessage } from '@/lib/domain';
+import { getCandidates } from '@/lib/candidates';
+
+interface ThreadViewProps {
+  messages: ChatMessage[];
+  /** Id of the message that just finished and should replay its output. */
+  animateMessageId?: string | null;
+  pendingPrompt?: string;
+  pendingResponse?: string;
+  isGenerating: boolean;
+  isStreamed: boolean;
+  onRetry?: (message: ChatMessage) => void;
+  /** Offered on the latest exchange; adds another candidate to it. */
+  onRegenerate?: (message: ChatMessage) => void;
+  onPreferCandidate?: (message: ChatMessage, index: number) => void;
+  /** Removes one exchange, leaving the rest of the thread. */
+  onDelete?: (message: ChatMessage) => void;
+  /** Exchange currently being regenerated and the text streamed so far. */
+  regeneratingId?: string | null;
+  regeneratingResponse?: string;
+}
+
+const ErrorTurn = ({ error, onRetry }: { error: ChatMessage['error']; onRetry?: () => void }) => (
+  <Card className="glass-panel border-red-500/30 p-4 lg:p-5">
+    <div className="flex items-start justify-between gap-4">
+      <div className="flex items-start space-x-3 min-w-0">
+        <AlertTriangle className="h-4 w-4 text-red-400 mt-0.5 shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm font-mono text-red-300">
+            {error.status ? `ERROR ${error.status}` : 'ERROR'}
+          </p>
+          <p className="text-sm text-slate-400 break-words">{error.message}</p>
+        </div>
+      </div>
+      {onRetry && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRetry}
+          className="glass-button text-slate-400 hover:text-slate-300 font-mono shrink-0"
+        >
+          <RotateCcw className="h-3.5 w-3.5 mr-2" />
+          RETRY
+        </Button>
+      )}
+    </div>
+  </Card>
+);
+
+const UserTurn = ({ prompt, onDelete }: { prompt: string; onDelete?: () => void }) => (
+  <div className="group flex justify-end">
+    <div className="max-w-[85%] glass-panel rounded-lg px-4 py-3 border-slate-700/40">
+      <div className="flex items-center space-x-2 mb-1">
+        <User className="h-3 w-3 text-slate-500" />
+        <span className="text-xs text-slate-500 font-mono">PROMPT</span>
+        {onDelete && (
+          <button
+            onClick={onDelete}
+            className="ml-auto p-0.5 rounded text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="Delete this exchange"
+            aria-label="Delete this exchange"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="whitespace-pre-wrap text-sm text-slate-200 leading-relaxed">{prompt}</p>
+    </div>
+  </div>
+);
+
+const SystemTurn = ({ systemPrompt }: { systemPrompt: string }) => (
+  <div className="rounded-lg border border-dashed border-slate-700/60 px-4 py-2">
+    <div className="flex items-center space-x-2 mb-1">
+      <ScrollText className="h-3 w-3 text-slate-500" />
+      <span className="text-xs text-slate-500 font-mono">SYSTEM</span>
+    </div>
+    <p className="whitespace-pre-wrap text-xs text-slate-400 leading-relaxed">{systemPrompt}</p>
+  </div>
+);
+
+export const ThreadView = ({
+  messages,
+  animateMessageId,
+  pendingPrompt,
+  pendingResponse = '',
+  isGenerating,
+  isStreamed,
+  onRetry,
+  onRegenerate,
+  onPreferCandidate,
+  onDelete,
+  regeneratingId,
+  regeneratingResponse = '',
+}: ThreadViewProps) => {
+  // Candidate being viewed per message; dropped once the candidate count changes
+  const [viewed, setViewed] = useState<Record<string, { index: number; count: number }>>({});
+
+  const renderOutput = (message: ChatMessage, isLatest: boolean) => {
+    if (message.id === regeneratingId) {
+      return <OutputBox content={regeneratingResponse} isGenerating animate={false} />;
+    }
+
+    const candidates = getCandidates(message);
+    const view = viewed[message.id];
+    const index = view?.count === candidates.length ? view.index : message.preferredCandidate ?? 0;
+    const candidate = candidates[index] ?? candidates[0];
+
+    return (
+      <OutputBox
+        content={candidate.response}
+        isGenerating={false}
+        animate={message.id === animateMessageId && !candidate.streamed}
+        inferenceTime={candidate.inferenceTime}
+        timeToFirstToken={candidate.timeToFirstToken}
+        tokensUsed={candidate.tokensUsed}
+        logprobs={candidate.logprobs}
+        cancelled={candidate.cancelled}
+        demo={candidate.demo}
+        candidateIndex={index}
+        candidateCount={candidates.length}
+        onCandidateChange={(next) =>
+          setViewed((prev) => ({ ...prev, [message.id]: { index: next, count: candidates.length } }))
+        }
+        isPreferred={index === (message.preferredCandidate ?? 0)}
+        onPrefer={onPreferCandidate ? () => onPreferCandidate(message, index) : undefined}
+        onRegenerate={isLatest && onRegenerate && !isGenerating ? () => onRegenerate(message) : undefined}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {messages.map((message, messageIndex) => (
+        <motion.div
+          key={message.id}
+          initial={{ y: 12, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="space-y-4"
+        >
+          {/* Shown where the instruction was set or changed within the thread */}
+          {message.config.systemPrompt && message.config.systemPrompt !== messages[messageIndex - 1]?.config.systemPrompt && (
+            <SystemTurn systemPrompt={message.config.systemPrompt} />
+          )}
+          <UserTurn
+            prompt={message.prompt}
+            onDelete={onDelete && !isGenerating ? () => onDelete(message) : undefined}
+          />
+          {message.error && (
+            <ErrorTurn
+              error={message.error}
+              onRetry={onRetry && !isGenerating ? () => onRetry(message) : undefined}
+            />
+          )}
+          {message.comparison && (
+            <CompareView
+              configs={message.comparison.map((variant) => variant.config)}
+              runs={message.comparison}
+            />
+          )}
+          {!message.error && !message.comparison && (message.response || message.cancelled || message.id === regeneratingId) &&
+            renderOutput(message, messageIndex === messages.length - 1)}
+        </motion.div>
+      ))}
+
+      {isGenerating && pendingPrompt && (
+        <motion.div
+          initial={{ y: 12, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="space-y-4"
+        >
+          <UserTurn prompt={pendingPrompt} />
+          <OutputBox
+            content={pendingResponse}
+            isGenerating={isGenerating}
+            animate={!isStreamed}
+          />
+        </motion.div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import { memo } from 'react';
+import { HoverCard, HoverCardContent, HoverCardTrigger } from '@/components/ui/hover-card';
+import type { TokenLogprob } from '@/lib/domain';
+import { summarizeLogprobs, toProbability } from '@/lib/logprobs';
+
+interface TokenProbabilitiesProps {
+  logprobs: TokenLogprob[];
+}
+
+// Highest first; a token takes the first bucket whose minimum it reaches
+const BUCKETS = [
+  { min: 0.9, className: 'bg-emerald-500/10', label: '≥90%' },
+  { min: 0.6, className: 'bg-lime-500/20', label: '≥60%' },
+  { min: 0.3, className: 'bg-amber-500/25', label: '≥30%' },
+  { min: 0.1, className: 'bg-orange-500/30', label: '≥10%' },
+  { min: 0, className: 'bg-red-500/40', label: '<10%' },
+];
+
+const bucketFor = (probability: number) => BUCKETS.find((bucket) => probability >= bucket.min) ?? BUCKETS[BUCKETS.length - 1];
+
+const formatPercent = (probability: number) =>
+  probability >= 0.995 ? '100%' : probability < 0.001 ? '<0.1%' : `${(probability * 100).toFixed(1)}%`;
+
+// Makes whitespace visible in the alternatives list
+const showToken = (token: string) => JSON.stringify(token).slice(1, -1).replace(/ /g, '␣') || '∅';
+
+const Token = memo(({ entry }: { entry: TokenLogprob }) => {
+  const probability = toProbability(entry.logprob);
+  const alternatives = [...(entry.topLogprobs ?? [])].sort((a, b) => b.logprob - a.logprob);
+  const rank = alternatives.findIndex((alternative) => alternative.token === entry.token);
+
+  return (
+    <HoverCard openDelay={80} closeDelay={40}>
+      <HoverCardTrigger asChild>
+        <span className={`rounded-sm cursor-default hover:ring-1 hover:ring-slate-400/60 ${bucketFor(probability).className}`}>
+          {entry.token}
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 p-3 space-y-3" side="top">
+        <div className="flex items-baseline justify-between gap-2">
+          <span className="font-mono text-sm truncate">{showToken(entry.token)}</span>
+          <span className="font-mono text-sm">{formatPercent(probability)}</span>
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground font-mono">
+          <span>logprob {entry.logprob.toFixed(3)}</span>
+          {alternatives.length > 0 && (
+            <span>{rank === -1 ? `outside top ${alternatives.length}` : `rank ${rank + 1} of ${alternatives.length}`}</span>
+          )}
+        </div>
+        {alternatives.length > 0 && (
+          <div className="space-y-1">
+            {alternatives.map((alternative) => {
+              const altProbability = toProbability(alternative.logprob);
+              const chosen = alternative.token === entry.token;
+              return (
+                <div key={alternative.token} className="relative flex items-center justify-between gap-2 px-2 py-0.5 text-xs font-mono">
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded-sm ${chosen ? 'bg-blue-500/30' : 'bg-slate-500/20'}`}
+                    style={{ width: `${Math.max(altProbability * 100, 1)}%` }}
+                  />
+                  <span className={`relative truncate ${chosen ? 'text-blue-300' : ''}`}>{showToken(alternative.token)}</span>
+                  <span className="relative shrink-0">{formatPercent(altProbability)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+});
+Token.displayName = 'Token';
+
+/**
+ * The response as its sampled tokens, shaded by probability, with the top
+ * alternatives for each token on hover and a perplexity summary.
+ */
+export const TokenProbabilities = ({ logprobs }: TokenProbabilitiesProps) => {
+  const summary = summarizeLogprobs(logprobs);
+  if (!summary) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs font-mono text-slate-400">
+        <span title="exp of the mean negative logprob; lower means the model was more certain">
+          PPL <span className="text-slate-200">{summary.perplexity.toFixed(2)}</span>
+        </span>
+        <span>
+          mean p <span className="text-slate-200">{formatPercent(summary.meanProbability)}</span>
+        </span>
+        <span>
+          lowest <span className="text-slate-200">{showToken(summary.lowest.token)}</span>{' '}
+          {formatPercent(toProbability(summary.lowest.logprob))}
+        </span>
+        <span>{summary.count} tokens</span>
+        <div className="flex items-center gap-1 ml-auto">
+          {BUCKETS.map((bucket) => (
+            <span key={bucket.label} className={`px-1.5 py-0.5 rounded-sm ${bucket.className}`}>{bucket.label}</span>
+          ))}
+        </div>
+      </div>
+      <div className="whitespace-pre-wrap text-slate-300 leading-relaxed text-sm lg:text-base">
+        {logprobs.map((entry, index) => <Token key={index} entry={entry} />)}
+      </div>
+    </div>
+  );
+};
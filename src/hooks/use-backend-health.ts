@@ -0,0 +1,76 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchHealth } from '@/lib/api';
+import { ApiError } from '@/lib/api-errors';
+import type { ConnectionProfile } from '@/lib/connections';
+
+export type BackendStatus = 'checking' | 'online' | 'degraded' | 'offline';
+
+export interface BackendHealth {
+  status: BackendStatus;
+  latency?: number;
+  modelName?: string;
+  modelVersion?: string;
+  device?: string;
+  message?: string;
+  checkedAt?: Date;
+}
+
+const POLL_INTERVAL_MS = 15000;
+// Round trips slower than this mark the backend as degraded
+const SLOW_LATENCY_MS = 1500;
+
+const HEALTHY_STATUSES = ['ok', 'healthy', 'online', 'ready', 'up'];
+
+const checkHealth = async (profile: ConnectionProfile): Promise<BackendHealth> => {
+  try {
+    const { latency, data } = await fetchHealth(profile);
+    const reportedStatus = data.status?.toLowerCase();
+    const isHealthy = (!reportedStatus || HEALTHY_STATUSES.includes(reportedStatus))
+      && latency < SLOW_LATENCY_MS;
+
+    return {
+      status: isHealthy ? 'online' : 'degraded',
+      latency,
+      modelName: data.model_name ?? data.model,
+      modelVersion: data.model_version ?? data.version,
+      device: data.device,
+      message: data.message,
+      checkedAt: new Date(),
+    };
+  } catch (error) {
+    // The server answered, just not successfully
+    if (error instanceof ApiError && error.kind === 'http') {
+      return {
+        status: 'degraded',
+        message: `HTTP ${error.status}: ${error.message}`,
+        checkedAt: new Date(),
+      };
+    }
+    return {
+      status: 'offline',
+      message: error instanceof Error ? error.message : 'Backend unreachable',
+      checkedAt: new Date(),
+    };
+  }
+};
+
+/**
+ * Polls the active profile's health endpoint and reports status, measured
+ * round-trip latency and the model metadata the server advertises.
+ */
+export function useBackendHealth(profile: ConnectionProfile) {
+  const query = useQuery({
+    queryKey: ['backend-health', profile.id, profile.baseUrl, profile.healthPath, profile.authHeaderName, profile.authHeaderValue],
+    queryFn: () => checkHealth(profile),
+    refetchInterval: POLL_INTERVAL_MS,
+    refetchOnWindowFocus: true,
+    retry: false,
+  });
+
+  const health: BackendHealth = query.data ?? { status: 'checking' };
+
+  return {
+    ...health,
+    refresh: query.refetch,
+  };
+}
@@ -0,0 +1,80 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ConnectionProfile } from '@/lib/connections';
+import type { ChatMessage, ModelConfig } from '@/lib/domain';
+import { runPrompt } from '@/lib/runs';
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error' | 'cancelled' | 'skipped';
+
+export interface BatchItem {
+  prompt: string;
+  status: BatchItemStatus;
+  message?: ChatMessage;
+}
+
+/**
+ * Runs a list of prompts with one config, at most `concurrency` at a time.
+ * Each finished prompt becomes a standalone history entry tagged with the
+ * batch id and is handed to `onResult` as soon as it completes. Stopping
+ * cancels the prompts in flight and skips the rest.
+ */
+export function useBatchRun(profile: ConnectionProfile, demoMode: boolean) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (
+    batchId: string,
+    prompts: string[],
+    config: ModelConfig,
+    concurrency: number,
+    onResult: (message: ChatMessage) => void
+  ): Promise<ChatMessage[]> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setItems(prompts.map((prompt) => ({ prompt, status: 'pending' })));
+
+    const update = (index: number, fields: Partial<BatchItem>) => {
+      setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...fields } : item)));
+    };
+
+    const runOne = async (prompt: string, index: number): Promise<ChatMessage> => {
+      const id = `${batchId}-${index + 1}`;
+      const outcome = await runPrompt(profile, { prompt, config, demoMode, signal: controller.signal });
+      return { id, threadId: id, batchId, prompt, config, timestamp: new Date(), ...outcome };
+    };
+
+    const results: ChatMessage[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < prompts.length && !controller.signal.aborted) {
+        const index = next++;
+        update(index, { status: 'running' });
+        const message = await runOne(prompts[index], index);
+        const status: BatchItemStatus = message.cancelled ? 'cancelled' : message.error ? 'error' : 'done';
+        update(index, { status, message });
+        results[index] = message;
+        onResult(message);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, prompts.length) }, worker));
+      setItems((prev) => prev.map((item) => (item.status === 'pending' ? { ...item, status: 'skipped' } : item)));
+      return results.filter(Boolean);
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [profile, demoMode]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setItems([]);
+  }, []);
+
+  return { items, isRunning, run, stop, reset };
+}
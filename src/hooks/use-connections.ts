@@ -0,0 +1,60 @@
+import { useState, useCallback } from 'react';
+import {
+  type ConnectionProfile,
+  type StoredConnections,
+  DEFAULT_PROFILE,
+  loadConnections,
+  saveConnections,
+} from '@/lib/connections';
+
+export function useConnections() {
+  const [connections, setConnections] = useState<StoredConnections>(loadConnections);
+
+  const update = useCallback((updater: (prev: StoredConnections) => StoredConnections) => {
+    setConnections((prev) => {
+      const next = updater(prev);
+      saveConnections(next);
+      return next;
+    });
+  }, []);
+
+  const activeProfile =
+    connections.profiles.find((profile) => profile.id === connections.activeId) ??
+    connections.profiles[0] ??
+    DEFAULT_PROFILE;
+
+  const setActiveProfile = useCallback((id: string) => {
+    update((prev) => ({ ...prev, activeId: id }));
+  }, [update]);
+
+  const saveProfile = useCallback((profile: ConnectionProfile) => {
+    update((prev) => {
+      const exists = prev.profiles.some((p) => p.id === profile.id);
+      return {
+        ...prev,
+        profiles: exists
+          ? prev.profiles.map((p) => (p.id === profile.id ? profile : p))
+          : [...prev.profiles, profile],
+      };
+    });
+  }, [update]);
+
+  const removeProfile = useCallback((id: string) => {
+    update((prev) => {
+      const profiles = prev.profiles.filter((p) => p.id !== id);
+      if (profiles.length === 0) profiles.push(DEFAULT_PROFILE);
+      return {
+        profiles,
+        activeId: prev.activeId === id ? profiles[0].id : prev.activeId,
+      };
+    });
+  }, [update]);
+
+  return {
+    profiles: connections.profiles,
+    activeProfile,
+    setActiveProfile,
+    saveProfile,
+    removeProfile,
+  };
+}
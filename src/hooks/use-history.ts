@@ -0,0 +1,244 @@
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from '@/hooks/use-toast';
+import type { ChatMessage } from '@/lib/domain';
+import {
+  HISTORY_PAGE_SIZE,
+  HistoryQuotaError,
+  clearHistoryStore,
+  deleteMessages,
+  getHistoryPage,
+  getMessageIds,
+  getThreadMessages,
+  putMessages,
+} from '@/lib/history-db';
+
+const reportError = (error: unknown) => {
+  toast({
+    title: error instanceof HistoryQuotaError ? "History storage full" : "History unavailable",
+    description: error instanceof Error ? error.message : "Could not access browser storage.",
+    variant: "destructive"
+  });
+};
+
+// Keeps newest-first order and lets fresher copies replace stale ones
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return Array.from(byId.values()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+};
+
+/**
+ * History backed by IndexedDB. Loads the newest page on mount and more on
+ * demand; writes go straight to the store instead of rewriting everything.
+ */
+export function useHistory() {
+  const [history, setHistory] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadedCount, setLoadedCount] = useState(0);
+
+  useEffect(() => {
+    // Favorites are always loaded so pinned entries show regardless of paging
+    Promise.all([
+      getHistoryPage({ limit: HISTORY_PAGE_SIZE }),
+      getHistoryPage({ favoritesOnly: true, limit: Infinity }),
+    ])
+      .then(([page, favorites]) => {
+        setHistory(mergeMessages(page.messages, favorites.messages));
+        setHasMore(page.hasMore);
+        setLoadedCount(page.messages.length);
+      })
+      .catch(reportError)
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (isLoading || !hasMore) return;
+
+    setIsLoading(true);
+    try {
+      const page = await getHistoryPage({ offset: loadedCount, limit: HISTORY_PAGE_SIZE });
+      setHistory((prev) => mergeMessages(prev, page.messages));
+      setHasMore(page.hasMore);
+      setLoadedCount((count) => count + page.messages.length);
+    } catch (error) {
+      reportError(error);
+      // Otherwise an active search would keep retrying a failing store
+      setHasMore(false);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isLoading, hasMore, loadedCount]);
+
+  /** Makes sure every exchange of a thread is loaded, not just the paged ones. */
+  const loadThread = useCallback(async (threadId: string) => {
+    try {
+      const messages = await getThreadMessages(threadId);
+      setHistory((prev) => mergeMessages(prev, messages));
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  const addMessage = useCallback((message: ChatMessage) => {
+    setHistory((prev) => [message, ...prev]);
+    setLoadedCount((count) => count + 1);
+
+    putMessages([message])
+      .then((prunedIds) => {
+        if (prunedIds.length === 0) return;
+        setHistory((prev) => prev.filter((m) => !prunedIds.includes(m.id)));
+        toast({
+          title: "Old history removed",
+          description: `Browser storage was full, so the ${prunedIds.length} oldest entries were deleted.`,
+        });
+      })
+      .catch(reportError);
+  }, []);
+
+  /**
+   * Loads the newest entries for a preset through its index, so a `preset:`
+   * search also finds entries older than the loaded pages.
+   */
+  const loadPreset = useCallback(async (preset: string) => {
+    try {
+      const page = await getHistoryPage({ preset, limit: HISTORY_PAGE_SIZE });
+      setHistory((prev) => mergeMessages(prev, page.messages));
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  /** Replaces a stored message, e.g. after adding a candidate. */
+  const updateMessage = useCallback((message: ChatMessage) => {
+    setHistory((prev) => mergeMessages(prev, [message]));
+    putMessages([message]).catch(reportError);
+  }, []);
+
+  const setFavorite = useCallback((messages: ChatMessage[], favorite: boolean) => {
+    const updated = messages.map((message) => ({ ...message, favorite }));
+    setHistory((prev) => mergeMessages(prev, updated));
+    putMessages(updated).catch(reportError);
+  }, []);
+
+  /** Every exchange of the given threads, including ones not paged in yet. */
+  const collectThreads = useCallback(async (threadIds: string[]) => {
+    const stored = await Promise.all(threadIds.map(getThreadMessages));
+    // Pre-thread entries have no threadId and are addressed by their own id
+    const loaded = history.filter((message) => threadIds.includes(message.threadId ?? message.id));
+    return { loaded, all: mergeMessages(loaded, stored.flat()) };
+  }, [history]);
+
+  /**
+   * Deletes every exchange of the given threads. Resolves with the removed
+   * messages so they can be restored.
+   */
+  const deleteThreads = useCallback(async (threadIds: string[]): Promise<ChatMessage[]> => {
+    try {
+      const { loaded, all: removed } = await collectThreads(threadIds);
+      const removedIds = removed.map((message) => message.id);
+
+      await deleteMessages(removedIds);
+      setHistory((prev) => prev.filter((message) => !removedIds.includes(message.id)));
+      // Over-counting only re-reads entries that merge away, skipping would lose some
+      setLoadedCount((count) => Math.max(0, count - loaded.length));
+      return removed;
+    } catch (error) {
+      reportError(error);
+      return [];
+    }
+  }, [collectThreads]);
+
+  /** Deletes one exchange. Resolves with it so it can be restored. */
+  const deleteMessage = useCallback(async (message: ChatMessage): Promise<ChatMessage[]> => {
+    try {
+      await deleteMessages([message.id]);
+      setHistory((prev) => prev.filter((m) => m.id !== message.id));
+      setLoadedCount((count) => Math.max(0, count - 1));
+      return [message];
+    } catch (error) {
+      reportError(error);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Reads messages for export: the given threads, or the whole store when
+   * no threads are passed.
+   */
+  const getExportMessages = useCallback(async (threadIds?: string[]): Promise<ChatMessage[]> => {
+    try {
+      if (threadIds) return (await collectThreads(threadIds)).all;
+      return (await getHistoryPage({ limit: Infinity })).messages;
+    } catch (error) {
+      reportError(error);
+      return [];
+    }
+  }, [collectThreads]);
+
+  /**
+   * Merges imported messages into the store, skipping ids that already exist.
+   * Resolves with the number of messages added.
+   */
+  const importMessages = useCallback(async (messages: ChatMessage[]) => {
+    try {
+      const existing = new Set(await getMessageIds());
+      const added = Array.from(new Map(messages.map((message) => [message.id, message])).values())
+        .filter((message) => !existing.has(message.id));
+      if (added.length === 0) return 0;
+
+      await putMessages(added);
+      setHistory((prev) => mergeMessages(prev, added));
+      return added.length;
+    } catch (error) {
+      reportError(error);
+      return 0;
+    }
+  }, []);
+
+  /** Writes previously removed messages back, e.g. when a deletion is undone. */
+  const restoreMessages = useCallback(async (messages: ChatMessage[]) => {
+    try {
+      await putMessages(messages);
+      setHistory((prev) => mergeMessages(prev, messages));
+    } catch (error) {
+      reportError(error);
+    }
+  }, []);
+
+  /**
+   * Clears history. Favorited entries survive unless `includeFavorites` is set.
+   * Resolves with the removed messages so they can be restored.
+   */
+  const clearHistory = useCallback(async ({ includeFavorites = false } = {}): Promise<ChatMessage[]> => {
+    try {
+      const removed = await clearHistoryStore({ keepFavorites: !includeFavorites });
+      setHistory((prev) => (includeFavorites ? [] : prev.filter((message) => message.favorite)));
+      // Remaining favorites sit outside the time-ordered paging window
+      setLoadedCount(0);
+      setHasMore(false);
+      return removed;
+    } catch (error) {
+      reportError(error);
+      return [];
+    }
+  }, []);
+
+  return {
+    history,
+    hasMore,
+    isLoading,
+    loadMore,
+    loadThread,
+    loadPreset,
+    addMessage,
+    updateMessage,
+    setFavorite,
+    deleteThreads,
+    deleteMessage,
+    restoreMessages,
+    getExportMessages,
+    importMessages,
+    clearHistory,
+  };
+}
@@ -0,0 +1,62 @@
+import { useState, useCallback, useRef } from 'react';
+import type { ContextTurn } from '@/lib/api';
+import type { ConnectionProfile } from '@/lib/connections';
+import type { ModelConfig, ResponseVariant } from '@/lib/domain';
+import { runPrompt } from '@/lib/runs';
+
+/**
+ * Runs one prompt with several configs concurrently, streaming each into its
+ * own slot. A failing or stopped run never rejects the batch; its outcome is
+ * recorded on the variant instead.
+ */
+export function useParallelRuns(profile: ConnectionProfile, demoMode: boolean) {
+  const [runs, setRuns] = useState<ResponseVariant[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (
+    prompt: string,
+    configs: ModelConfig[],
+    context?: ContextTurn[]
+  ): Promise<ResponseVariant[]> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setRuns(configs.map((config) => ({ config, response: '' })));
+
+    const update = (index: number, fields: Partial<ResponseVariant>) => {
+      setRuns((prev) => prev.map((variant, i) => (i === index ? { ...variant, ...fields } : variant)));
+    };
+
+    const runOne = async (config: ModelConfig, index: number): Promise<ResponseVariant> => {
+      const outcome = await runPrompt(profile, {
+        prompt,
+        config,
+        context,
+        demoMode,
+        signal: controller.signal,
+        onToken: (_token, received) => update(index, { response: received, streamed: true }),
+      });
+      const variant: ResponseVariant = { config, ...outcome };
+      setRuns((prev) => prev.map((current, i) => (i === index ? variant : current)));
+      return variant;
+    };
+
+    try {
+      return await Promise.all(configs.map(runOne));
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, [profile, demoMode]);
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const reset = useCallback(() => {
+    setRuns([]);
+  }, []);
+
+  return { runs, isRunning, run, stop, reset };
+}
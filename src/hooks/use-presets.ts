@@ -0,0 +1,35 @@
+import { useCallback } from 'react';
+import type { SamplingParams } from '@/lib/domain';
+import { presetCollection } from '@/lib/presets';
+import { useStoredCollection } from '@/hooks/use-stored-collection';
+
+/**
+ * Built-in presets followed by the user's own, which persist to localStorage
+ * in the order the user arranges them.
+ */
+export function usePresets() {
+  const {
+    items,
+    customItems,
+    createItem,
+    updateItem,
+    removeItem,
+    moveItem,
+    importFile,
+    exportFile,
+  } = useStoredCollection(presetCollection);
+
+  const createPreset = useCallback((name: string, params: SamplingParams) =>
+    createItem({ name: name.trim(), params }), [createItem]);
+
+  return {
+    presets: items,
+    customPresets: customItems,
+    createPreset,
+    updatePreset: updateItem,
+    removePreset: removeItem,
+    movePreset: moveItem,
+    importPresetFile: importFile,
+    exportPresetFile: exportFile,
+  };
+}
@@ -0,0 +1,66 @@
+import { useState, useCallback, useMemo } from 'react';
+import type { CollectionItem, StoredCollection } from '@/lib/collections';
+
+/**
+ * A collection's built-in items followed by the user's own, which persist to
+ * localStorage in the order the user arranges them.
+ */
+export function useStoredCollection<T extends CollectionItem>(collection: StoredCollection<T>) {
+  const [customItems, setCustomItems] = useState<T[]>(collection.load);
+
+  const update = useCallback((updater: (prev: T[]) => T[]) => {
+    setCustomItems((prev) => {
+      const next = updater(prev);
+      collection.save(next);
+      return next;
+    });
+  }, [collection]);
+
+  const items = useMemo(() => [...collection.builtIns, ...customItems], [collection, customItems]);
+
+  const createItem = useCallback((fields: Omit<T, 'id'>) => {
+    const item = { ...fields, id: collection.createId(fields.name, customItems.map((i) => i.id)) } as T;
+    update((prev) => [...prev, item]);
+    return item;
+  }, [collection, customItems, update]);
+
+  const updateItem = useCallback((item: T) => {
+    update((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+  }, [update]);
+
+  const removeItem = useCallback((id: string) => {
+    update((prev) => prev.filter((i) => i.id !== id));
+  }, [update]);
+
+  const moveItem = useCallback((id: string, offset: -1 | 1) => {
+    update((prev) => {
+      const index = prev.findIndex((i) => i.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [update]);
+
+  /** Parses an export file and merges it in, returning how many items it held. */
+  const importFile = useCallback((raw: string) => {
+    const imported = collection.parseFile(raw);
+    update((prev) => collection.merge(prev, imported));
+    return imported.length;
+  }, [collection, update]);
+
+  const exportFile = useCallback(() => collection.serialize(customItems), [collection, customItems]);
+
+  return {
+    items,
+    customItems,
+    createItem,
+    updateItem,
+    removeItem,
+    moveItem,
+    importFile,
+    exportFile,
+  };
+}
@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import { type PromptTemplate, templateCollection } from '@/lib/templates';
+import { useStoredCollection } from '@/hooks/use-stored-collection';
+
+type TemplateFields = Pick<PromptTemplate, 'name' | 'category' | 'body'>;
+
+/**
+ * Built-in prompt templates followed by the user's own, which persist to
+ * localStorage.
+ */
+export function useTemplates() {
+  const {
+    items,
+    customItems,
+    createItem,
+    updateItem,
+    removeItem,
+    importFile,
+    exportFile,
+  } = useStoredCollection(templateCollection);
+
+  const createTemplate = useCallback(({ name, category, body }: TemplateFields) =>
+    createItem({ name: name.trim(), category: category.trim(), body }), [createItem]);
+
+  return {
+    templates: items,
+    customTemplates: customItems,
+    createTemplate,
+    updateTemplate: updateItem,
+    removeTemplate: removeItem,
+    importTemplateFile: importFile,
+    exportTemplateFile: exportFile,
+  };
+}
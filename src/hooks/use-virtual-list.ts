@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+interface VirtualListOptions {
+  count: number;
+  getKey: (index: number) => string;
+  /** Height used for rows that have not been measured yet. */
+  estimateSize: number;
+  /** Rows rendered beyond each edge of the viewport. */
+  overscan?: number;
+  /** Space above the first row. */
+  paddingStart?: number;
+}
+
+export interface VirtualItem {
+  index: number;
+  key: string;
+  start: number;
+}
+
+// Largest index whose offset is at or before `position`
+const findIndex = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (offsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Windowed rendering for a scrollable list of rows with varying heights.
+ * Only rows near the viewport are returned; each rendered row reports its
+ * real height through `measureRef` so offsets settle as the user scrolls.
+ */
+export function useVirtualList({ count, getKey, estimateSize, overscan = 4, paddingStart = 0 }: VirtualListOptions) {
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [sizes, setSizes] = useState(() => new Map<string, number>());
+
+  useEffect(() => {
+    if (!container) return;
+
+    const onScroll = () => setScrollTop(container.scrollTop);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    container.addEventListener('scroll', onScroll, { passive: true });
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+
+    return () => {
+      container.removeEventListener('scroll', onScroll);
+      observer.disconnect();
+    };
+  }, [container]);
+
+  const rowObserver = useMemo(
+    () => new ResizeObserver((entries, observer) => {
+      const measured: [string, number][] = [];
+      entries.forEach((entry) => {
+        // Rows scrolled out of the window are removed from the DOM
+        if (!entry.target.isConnected) {
+          observer.unobserve(entry.target);
+          return;
+        }
+        const key = (entry.target as HTMLElement).dataset.virtualKey;
+        const height = Math.round(entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height);
+        if (key && height > 0) measured.push([key, height]);
+      });
+      if (measured.length === 0) return;
+
+      // Keep the same map when nothing changed so offsets are not recomputed
+      setSizes((prev) => {
+        const changed = measured.filter(([key, height]) => prev.get(key) !== height);
+        return changed.length ? new Map([...prev, ...changed]) : prev;
+      });
+    }),
+    []
+  );
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  const { offsets, totalHeight } = useMemo(() => {
+    const offsets: number[] = new Array(count);
+    let position = paddingStart;
+    for (let i = 0; i < count; i++) {
+      offsets[i] = position;
+      position += sizes.get(getKey(i)) ?? estimateSize;
+    }
+    return { offsets, totalHeight: position };
+  }, [count, getKey, estimateSize, paddingStart, sizes]);
+
+  const items = useMemo<VirtualItem[]>(() => {
+    if (count === 0) return [];
+    const first = Math.max(0, findIndex(offsets, scrollTop) - overscan);
+    // Before the first layout pass, render enough rows to fill a typical panel
+    const bottom = scrollTop + (viewportHeight || estimateSize * 10);
+    const last = Math.min(count - 1, findIndex(offsets, bottom) + overscan);
+
+    const visible: VirtualItem[] = [];
+    for (let i = first; i <= last; i++) {
+      visible.push({ index: i, key: getKey(i), start: offsets[i] });
+    }
+    return visible;
+  }, [count, getKey, offsets, scrollTop, viewportHeight, estimateSize, overscan]);
+
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (element) rowObserver.observe(element);
+  }, [rowObserver]);
+
+  const distanceToEnd = totalHeight - scrollTop - viewportHeight;
+
+  return {
+    /** Ref for the scrolling element. */
+    containerRef: setContainer,
+    /** Ref for each rendered row; the row needs a `data-virtual-key` attribute. */
+    measureRef,
+    items,
+    totalHeight,
+    distanceToEnd,
+  };
+}
@@ -0,0 +1,84 @@
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'http'
+  | 'invalid_request'
+  | 'invalid_response'
+  | 'aborted';
+
+/** Serialisable error details stored with failed runs in history. */
+export interface RunError {
+  status?: number;
+  message: string;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export class ApiError extends Error {
+  kind: ApiErrorKind;
+  status?: number;
+  /** Server-requested delay before retrying, from a Retry-After header. */
+  retryAfterMs?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  get retryable() {
+    return this.kind === 'network' || (this.kind === 'http' && RETRYABLE_STATUSES.includes(this.status));
+  }
+
+  /**
+   * Builds an error from a non-2xx response, preferring the server's own
+   * message (FastAPI reports it under `detail`).
+   */
+  static async fromResponse(response: Response) {
+    let message = response.statusText || 'Request failed';
+    try {
+      const body = await response.text();
+      try {
+        const data = JSON.parse(body);
+        const detail = data.detail ?? data.message ?? data.error;
+        if (typeof detail === 'string') {
+          message = detail;
+        } else if (detail) {
+          message = JSON.stringify(detail);
+        }
+      } catch {
+        if (body.trim()) message = body.trim().slice(0, 300);
+      }
+    } catch {
+      // Keep the status text when the body cannot be read
+    }
+
+    const error = new ApiError('http', message, response.status);
+    const retryAfter = Number(response.headers.get('retry-after'));
+    if (retryAfter > 0) error.retryAfterMs = retryAfter * 1000;
+    return error;
+  }
+}
+
+/**
+ * Maps anything thrown while talking to the backend onto an ApiError.
+ */
+export const toApiError = (error: unknown, url: string): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError('aborted', 'Request was cancelled.');
+  }
+  if (error instanceof TypeError) {
+    return new ApiError('network', `Network error: could not reach ${url}`);
+  }
+  if (error instanceof SyntaxError) {
+    return new ApiError('invalid_response', 'The server returned a response that is not valid JSON.');
+  }
+  return new ApiError('network', error instanceof Error ? error.message : String(error));
+};
+
+export const toRunError = (error: ApiError): RunError => ({
+  status: error.status,
+  message: error.message,
+});
@@ -0,0 +1,319 @@
+import { z } from 'zod';
+import { ApiError, toApiError } from '@/lib/api-errors';
+import {
+  type ConnectionProfile,
+  DEFAULT_HEALTH_PATH,
+  buildEndpointUrl,
+  buildRequestHeaders,
+} from '@/lib/connections';
+import {
+  type GenerationOptions,
+  type ModelConfig,
+  type SamplingParams,
+  type TokenLogprob,
+  MAX_STOP_SEQUENCES,
+  MAX_SYSTEM_PROMPT_LENGTH,
+} from '@/lib/domain';
+import { MAX_TOP_LOGPROBS, tokenLogprobSchema, toTokenLogprob } from '@/lib/logprobs';
+import { isStreamingResponse, readTokenStream } from '@/lib/stream';
+
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const HEALTH_TIMEOUT_MS = 5000;
+
+// Schemas
+
+export const contextTurnSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+});
+
+// The field rules alone, which history import also checks stored configs against
+export const predictRequestFields = z.object({
+  text: z.string().refine((text) => text.trim().length > 0, 'Prompt is empty'),
+  system: z.string().max(MAX_SYSTEM_PROMPT_LENGTH).optional(),
+  messages: z.array(contextTurnSchema).optional(),
+  temperature: z.number().min(0).max(2),
+  max_tokens: z.number().int().positive(),
+  top_k: z.number().int().min(1),
+  top_p: z.number().gt(0).max(1),
+  stop: z.array(z.string().min(1, 'must not be empty')).max(MAX_STOP_SEQUENCES).optional(),
+  repetition_penalty: z.number().min(1).max(2).optional(),
+  presence_penalty: z.number().min(-2).max(2).optional(),
+  frequency_penalty: z.number().min(-2).max(2).optional(),
+  seed: z.number().int().nonnegative().optional(),
+  min_length: z.number().int().nonnegative().optional(),
+  logprobs: z.boolean().optional(),
+  top_logprobs: z.number().int().min(0).max(MAX_TOP_LOGPROBS).optional(),
+  stream: z.boolean().optional(),
+});
+
+export const predictRequestSchema = predictRequestFields.refine((request) => (request.min_length ?? 0) <= request.max_tokens, {
+  message: 'must not exceed max_tokens',
+  path: ['min_length'],
+});
+
+export const predictResponseSchema = z.object({
+  generated_text: z.string(),
+  tokens_used: z.number().int().nonnegative().optional(),
+  logprobs: z.array(tokenLogprobSchema).optional(),
+}).passthrough();
+
+export const healthResponseSchema = z.object({
+  status: z.string().optional(),
+  message: z.string().optional(),
+  model: z.string().optional(),
+  model_name: z.string().optional(),
+  model_version: z.string().optional(),
+  version: z.string().optional(),
+  device: z.string().optional(),
+}).passthrough();
+
+export type ContextTurn = z.infer<typeof contextTurnSchema>;
+export type PredictRequest = z.infer<typeof predictRequestSchema>;
+export type PredictResponse = z.infer<typeof predictResponseSchema>;
+export type HealthResponse = z.infer<typeof healthResponseSchema>;
+
+export interface PredictResult {
+  text: string;
+  tokensUsed?: number;
+  logprobs?: TokenLogprob[];
+  streamed: boolean;
+  timeToFirstToken?: number;
+  inferenceTime: number;
+}
+
+export interface PredictOptions {
+  signal?: AbortSignal;
+  /** Called with each streamed token and the text received so far. */
+  onToken?: (token: string, text: string) => void;
+  /** Called once when the server starts a streamed response. */
+  onStreamStart?: () => void;
+}
+
+export interface HealthResult {
+  latency: number;
+  data: HealthResponse;
+}
+
+/**
+ * Maps the UI's camelCase sampling config onto the backend's request body.
+ * Generation options left at their defaults are omitted so older backends
+ * that do not know them keep working.
+ */
+export const buildPredictRequest = (
+  text: string,
+  config: SamplingParams & Partial<GenerationOptions & Pick<ModelConfig, 'systemPrompt'>>,
+  messages?: ContextTurn[]
+): PredictRequest => ({
+  text,
+  system: config.systemPrompt?.trim() || undefined,
+  messages,
+  temperature: config.temperature,
+  max_tokens: config.maxTokens,
+  top_k: config.topK,
+  top_p: config.topP,
+  stop: config.stop?.length ? config.stop : undefined,
+  repetition_penalty: config.repetitionPenalty !== undefined && config.repetitionPenalty !== 1 ? config.repetitionPenalty : undefined,
+  presence_penalty: config.presencePenalty || undefined,
+  frequency_penalty: config.frequencyPenalty || undefined,
+  seed: config.seed ?? undefined,
+  // A preset can lower max tokens below a previously chosen minimum
+  min_length: Math.min(config.minLength ?? 0, config.maxTokens) || undefined,
+  logprobs: config.topLogprobs ? true : undefined,
+  top_logprobs: config.topLogprobs || undefined,
+  stream: true,
+});
+
+// Request policy
+
+interface RequestPolicy {
+  url: string;
+  timeoutMs: number;
+  retries: number;
+  signal?: AbortSignal;
+  /** Vetoes a retry, e.g. once part of a response has been delivered. */
+  canRetry?: () => boolean;
+}
+
+const backoffDelay = (attempt: number, error: ApiError) => {
+  if (error.retryAfterMs) return Math.min(error.retryAfterMs, MAX_BACKOFF_MS);
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_BACKOFF_MS, MAX_BACKOFF_MS);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('aborted', 'Request was cancelled.'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new ApiError('aborted', 'Request was cancelled.'));
+    }, { once: true });
+  });
+
+/**
+ * Runs `attempt` with a per-attempt timeout linked to the caller's signal,
+ * retrying transient failures with exponential backoff. The timeout covers
+ * the wait for a response; calling `responded` once the headers arrive stops
+ * it, so a long streamed body is not cut off. Every error that leaves this
+ * function is an ApiError.
+ */
+const withPolicy = async <T>(
+  policy: RequestPolicy,
+  attempt: (signal: AbortSignal, responded: () => void) => Promise<T>
+): Promise<T> => {
+  for (let attemptNumber = 0; ; attemptNumber++) {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, policy.timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    policy.signal?.addEventListener('abort', abortFromCaller, { once: true });
+
+    try {
+      if (policy.signal?.aborted) throw new ApiError('aborted', 'Request was cancelled.');
+      return await attempt(controller.signal, () => clearTimeout(timer));
+    } catch (error) {
+      const apiError = timedOut
+        ? new ApiError('timeout', `Request timed out after ${Math.round(policy.timeoutMs / 1000)}s`)
+        : policy.signal?.aborted
+          ? new ApiError('aborted', 'Request was cancelled.')
+          : toApiError(error, policy.url);
+
+      const canRetry = apiError.retryable
+        && attemptNumber < policy.retries
+        && (policy.canRetry?.() ?? true);
+      if (!canRetry) throw apiError;
+
+      await sleep(backoffDelay(attemptNumber, apiError), policy.signal);
+    } finally {
+      clearTimeout(timer);
+      policy.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+};
+
+// Endpoints
+
+/**
+ * Sends a prompt to the profile's predict endpoint. Streams tokens through
+ * `onToken` when the server responds with SSE or NDJSON, otherwise validates
+ * and returns the JSON body.
+ */
+export const predict = async (
+  profile: ConnectionProfile,
+  request: PredictRequest,
+  { signal, onToken, onStreamStart }: PredictOptions = {}
+): Promise<PredictResult> => {
+  const parsedRequest = predictRequestSchema.safeParse(request);
+  if (!parsedRequest.success) {
+    const issue = parsedRequest.error.issues[0];
+    throw new ApiError('invalid_request', `Invalid request: ${issue.path.join('.') || 'body'} ${issue.message}`);
+  }
+
+  const url = buildEndpointUrl(profile);
+  const startTime = Date.now();
+  let text = '';
+
+  return withPolicy({
+    url,
+    timeoutMs: profile.timeoutMs,
+    retries: MAX_RETRIES,
+    signal,
+    canRetry: () => text === '',
+  }, async (attemptSignal, responded) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: attemptSignal,
+      headers: {
+        ...buildRequestHeaders(profile),
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream, application/x-ndjson, application/json',
+      },
+      body: JSON.stringify(parsedRequest.data),
+    });
+    responded();
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response);
+    }
+
+    if (isStreamingResponse(response)) {
+      let tokensUsed: number | undefined;
+      let timeToFirstToken: number | undefined;
+      const logprobs: TokenLogprob[] = [];
+      onStreamStart?.();
+
+      for await (const chunk of readTokenStream(response)) {
+        if (chunk.token) {
+          timeToFirstToken ??= Date.now() - startTime;
+          text += chunk.token;
+          onToken?.(chunk.token, text);
+        }
+        if (chunk.tokensUsed !== undefined) {
+          tokensUsed = chunk.tokensUsed;
+        }
+        if (chunk.logprob) {
+          logprobs.push(chunk.logprob);
+        }
+      }
+
+      return {
+        text,
+        tokensUsed,
+        logprobs: logprobs.length ? logprobs : undefined,
+        streamed: true,
+        timeToFirstToken,
+        inferenceTime: Date.now() - startTime,
+      };
+    }
+
+    const data = predictResponseSchema.safeParse(await response.json());
+    if (!data.success) {
+      const issue = data.error.issues[0];
+      throw new ApiError(
+        'invalid_response',
+        `Unexpected response: ${issue.path.join('.') || 'body'} ${issue.message}`,
+        response.status
+      );
+    }
+
+    return {
+      text: data.data.generated_text,
+      tokensUsed: data.data.tokens_used,
+      logprobs: data.data.logprobs?.map(toTokenLogprob),
+      streamed: false,
+      inferenceTime: Date.now() - startTime,
+    };
+  });
+};
+
+/**
+ * Fetches the profile's health endpoint and measures the round trip.
+ */
+export const fetchHealth = async (profile: ConnectionProfile, signal?: AbortSignal): Promise<HealthResult> => {
+  const url = buildEndpointUrl(profile, profile.healthPath || DEFAULT_HEALTH_PATH);
+
+  return withPolicy({ url, timeoutMs: HEALTH_TIMEOUT_MS, retries: 0, signal }, async (attemptSignal) => {
+    const startTime = performance.now();
+    const response = await fetch(url, {
+      headers: buildRequestHeaders(profile),
+      signal: attemptSignal,
+    });
+    const latency = Math.round(performance.now() - startTime);
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response);
+    }
+
+    const data = healthResponseSchema.safeParse(await response.json().catch(() => ({})));
+    return { latency, data: data.success ? data.data : {} };
+  });
+};
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+
+export const MAX_BATCH_PROMPTS = 500;
+export const BATCH_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export type BatchFileFormat = 'csv' | 'jsonl' | 'text';
+
+/** Raised when a batch file holds no usable prompts. */
+export class BatchImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchImportError';
+  }
+}
+
+export const createBatchId = () => `batch-${Date.now().toString(36)}`;
+
+/** Picks the parser from the extension, falling back to sniffing the content. */
+export const detectBatchFormat = (filename: string, raw: string): BatchFileFormat => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'txt') return 'text';
+  return raw.trimStart().startsWith('{') ? 'jsonl' : 'text';
+};
+
+/** RFC 4180 rows: quoted fields may hold commas, doubled quotes and newlines. */
+const parseCsvRows = (raw: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quoted) {
+      if (char === '"' && raw[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && raw[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+// Column names read as the prompt, in order of preference
+const PROMPT_COLUMNS = ['prompt', 'text', 'input', 'question'];
+
+const fromCsv = (raw: string) => {
+  const rows = parseCsvRows(raw.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const column = PROMPT_COLUMNS.map((name) => header.indexOf(name)).find((index) => index !== -1);
+  // Without a known header the first column holds the prompts
+  return column === undefined
+    ? rows.map((row) => row[0])
+    : rows.slice(1).map((row) => row[column] ?? '');
+};
+
+const jsonlEntrySchema = z.union([
+  z.string(),
+  z.object({
+    prompt: z.string().optional(),
+    text: z.string().optional(),
+    input: z.string().optional(),
+  }).passthrough(),
+]);
+
+const fromJsonl = (raw: string) =>
+  raw.split(/\r?\n/).flatMap((line, index) => {
+    if (!line.trim()) return [];
+    let data: unknown;
+    try {
+      data = JSON.parse(line);
+    } catch {
+      throw new BatchImportError(`Line ${index + 1} is not valid JSON.`);
+    }
+    const entry = jsonlEntrySchema.safeParse(data);
+    const prompt = !entry.success
+      ? undefined
+      : typeof entry.data === 'string'
+        ? entry.data
+        : entry.data.prompt ?? entry.data.text ?? entry.data.input;
+    if (prompt === undefined) {
+      throw new BatchImportError(`Line ${index + 1} needs a "prompt" field.`);
+    }
+    return [prompt];
+  });
+
+const fromText = (raw: string) => raw.split(/\r?\n/);
+
+/**
+ * Reads prompts from a CSV (a `prompt` column or the first column), JSONL
+ * (`prompt`, `text` or `input` per line) or plain-text file (one per line).
+ * Blank prompts are dropped.
+ */
+export const parseBatchFile = (raw: string, filename: string): string[] => {
+  const format = detectBatchFormat(filename, raw);
+  const prompts = { csv: fromCsv, jsonl: fromJsonl, text: fromText }[format](raw)
+    .map((prompt) => prompt.trim())
+    .filter(Boolean);
+
+  if (prompts.length === 0) {
+    throw new BatchImportError('The file does not contain any prompts.');
+  }
+  if (prompts.length > MAX_BATCH_PROMPTS) {
+    throw new BatchImportError(`The file has ${prompts.length} prompts; a batch can run at most ${MAX_BATCH_PROMPTS}.`);
+  }
+  return prompts;
+};
@@ -0,0 +1,41 @@
+import type { ChatMessage, ResponseVariant } from '@/lib/domain';
+
+export const MAX_CANDIDATES = 5;
+
+/** The message's own response as a candidate. */
+const toVariant = (message: ChatMessage): ResponseVariant => ({
+  config: message.config,
+  response: message.response,
+  inferenceTime: message.inferenceTime,
+  timeToFirstToken: message.timeToFirstToken,
+  tokensUsed: message.tokensUsed,
+  logprobs: message.logprobs,
+  streamed: message.streamed,
+  cancelled: message.cancelled,
+  demo: message.demo,
+});
+
+/** Every candidate of a message; single-response messages have one. */
+export const getCandidates = (message: ChatMessage): ResponseVariant[] =>
+  message.candidates ?? [toVariant(message)];
+
+/**
+ * Message fields for a set of candidates. The top-level response and stats
+ * mirror the preferred candidate, so context, search and export use it.
+ */
+export const candidateFields = (candidates: ResponseVariant[], preferred: number): Partial<ChatMessage> => {
+  const chosen = candidates[preferred];
+  return {
+    config: chosen.config,
+    response: chosen.response,
+    inferenceTime: chosen.inferenceTime,
+    timeToFirstToken: chosen.timeToFirstToken,
+    tokensUsed: chosen.tokensUsed,
+    logprobs: chosen.logprobs,
+    streamed: chosen.streamed,
+    cancelled: chosen.cancelled,
+    demo: chosen.demo,
+    candidates: candidates.length > 1 ? candidates : undefined,
+    preferredCandidate: candidates.length > 1 ? preferred : undefined,
+  };
+};
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+
+const COLLECTION_FILE_VERSION = 1;
+
+/** Something users create next to built-in ones, like a preset or a template. */
+export interface CollectionItem {
+  id: string;
+  name: string;
+  /** Built-in items are never stored, exported or replaced. */
+  builtIn?: boolean;
+}
+
+/** Raised when an imported file is not an export of the expected collection. */
+export class CollectionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CollectionImportError';
+  }
+}
+
+interface StoredCollectionOptions<T extends CollectionItem> {
+  storageKey: string;
+  /** Used in messages and as the fallback id for unusable names. */
+  singular: string;
+  /** Used in messages and as the item array's key in export files. */
+  plural: string;
+  /** Validates one stored or imported item. */
+  schema: z.ZodTypeAny;
+  builtIns: T[];
+  /** Ids custom items may not take besides the built-ins' own. */
+  reservedIds?: string[];
+  /** The fields that are stored and exported. */
+  toStored: (item: T) => T;
+}
+
+export interface StoredCollection<T extends CollectionItem> {
+  singular: string;
+  plural: string;
+  builtIns: T[];
+  load: () => T[];
+  save: (items: T[]) => void;
+  serialize: (items: T[]) => string;
+  /** Validates an export file; throws a CollectionImportError when it is not one. */
+  parseFile: (raw: string) => T[];
+  /**
+   * Derives a readable id from a name, avoiding built-in, reserved and taken
+   * ids. Other records refer to ids, so they never change after creation.
+   */
+  createId: (name: string, taken: string[]) => string;
+  /**
+   * Merges imported items into the custom ones: an id that already exists is
+   * overwritten, and one that clashes with a built-in gets a fresh id.
+   */
+  merge: (current: T[], imported: T[]) => T[];
+}
+
+/**
+ * User-defined items kept in localStorage after a fixed set of built-ins,
+ * with a versioned JSON file format for sharing them.
+ */
+export const createStoredCollection = <T extends CollectionItem>({
+  storageKey,
+  singular,
+  plural,
+  schema,
+  builtIns,
+  reservedIds = [],
+  toStored,
+}: StoredCollectionOptions<T>): StoredCollection<T> => {
+  const builtInIds = builtIns.map((item) => item.id);
+  const fileSchema = z.object({
+    version: z.number(),
+    [plural]: z.array(schema),
+  });
+
+  const createId = (name: string, taken: string[]) => {
+    const reserved = new Set([...reservedIds, ...builtInIds, ...taken]);
+    const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || singular;
+
+    let id = base;
+    for (let suffix = 2; reserved.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  };
+
+  return {
+    singular,
+    plural,
+    builtIns,
+
+    load: () => {
+      try {
+        const saved = localStorage.getItem(storageKey);
+        if (saved) {
+          const parsed = z.array(schema).safeParse(JSON.parse(saved));
+          if (parsed.success) return parsed.data as T[];
+        }
+      } catch {
+        // Start without custom items when storage is unreadable
+      }
+      return [];
+    },
+
+    save: (items) => {
+      localStorage.setItem(storageKey, JSON.stringify(items.map(toStored)));
+    },
+
+    serialize: (items) =>
+      JSON.stringify({ version: COLLECTION_FILE_VERSION, [plural]: items.map(toStored) }, null, 2),
+
+    parseFile: (raw) => {
+      let data: unknown;
+      try {
+        data = JSON.parse(raw);
+      } catch {
+        throw new CollectionImportError('File is not valid JSON.');
+      }
+
+      const file = fileSchema.safeParse(data);
+      if (!file.success) {
+        const issue = file.error.issues[0];
+        throw new CollectionImportError(`Not a ${singular} export: ${issue.path.join('.') || 'file'} ${issue.message}`);
+      }
+      return file.data[plural] as T[];
+    },
+
+    createId,
+
+    merge: (current, imported) => {
+      let ids = current.map((item) => item.id);
+      const incoming = imported.map((item) => {
+        const id = builtInIds.includes(item.id) ? createId(item.name, ids) : item.id;
+        ids = [...ids, id];
+        return toStored({ ...item, id });
+      });
+
+      const replaced = current.map((item) => incoming.find((i) => i.id === item.id) ?? item);
+      return [...replaced, ...incoming.filter((i) => !current.some((item) => item.id === i.id))];
+    },
+  };
+};
@@ -0,0 +1,63 @@
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  /** Empty for same-origin requests, which the dev server can proxy. */
+  baseUrl: string;
+  path: string;
+  healthPath?: string;
+  authHeaderName?: string;
+  authHeaderValue?: string;
+  timeoutMs: number;
+}
+
+export const CONNECTIONS_STORAGE_KEY = 'minigpt-connections';
+
+export const DEFAULT_HEALTH_PATH = '/api/health';
+
+export const DEFAULT_PROFILE: ConnectionProfile = {
+  id: 'local',
+  name: 'Local (dev proxy)',
+  baseUrl: '',
+  path: '/api/predict',
+  healthPath: DEFAULT_HEALTH_PATH,
+  timeoutMs: 60000,
+};
+
+export interface StoredConnections {
+  profiles: ConnectionProfile[];
+  activeId: string;
+}
+
+export const loadConnections = (): StoredConnections => {
+  try {
+    const saved = localStorage.getItem(CONNECTIONS_STORAGE_KEY);
+    if (saved) {
+      const parsed: StoredConnections = JSON.parse(saved);
+      if (parsed.profiles?.length) return parsed;
+    }
+  } catch {
+    // Fall back to the default profile when storage is unreadable
+  }
+  return { profiles: [DEFAULT_PROFILE], activeId: DEFAULT_PROFILE.id };
+};
+
+export const saveConnections = (connections: StoredConnections) => {
+  localStorage.setItem(CONNECTIONS_STORAGE_KEY, JSON.stringify(connections));
+};
+
+/**
+ * Joins a profile's base URL with a path, tolerating stray slashes.
+ */
+export const buildEndpointUrl = (profile: ConnectionProfile, path = profile.path) => {
+  const base = profile.baseUrl.trim().replace(/\/+$/, '');
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+  return `${base}${normalizedPath}`;
+};
+
+export const buildRequestHeaders = (profile: ConnectionProfile): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (profile.authHeaderValue) {
+    headers[profile.authHeaderName?.trim() || 'Authorization'] = profile.authHeaderValue;
+  }
+  return headers;
+};
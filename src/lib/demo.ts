@@ -0,0 +1,35 @@
+import type { StreamChunk } from '@/lib/stream';
+
+export const DEMO_MODE_STORAGE_KEY = 'minigpt-demo-mode';
+
+const DEMO_TOKEN_DELAY_MS = 30;
+
+const buildDemoResponse = (prompt: string) =>
+  `This is a demonstration of MiniGPT-MLOps generating text based on your prompt: "${prompt}"\n\nThe model would process this input using the transformer architecture with the configured parameters. Turn off demo mode in Settings to send prompts to your FastAPI backend.`;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // A signal that is already aborted never fires its event again
+    if (signal.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+/**
+ * Streams a canned response word by word so demo runs exercise the same
+ * rendering path as a live backend. Nothing is sent over the network.
+ */
+export async function* demoTokenStream(prompt: string, signal: AbortSignal): AsyncGenerator<StreamChunk> {
+  const words = buildDemoResponse(prompt).split(/(?<=\s)/);
+
+  for (const word of words) {
+    await wait(DEMO_TOKEN_DELAY_MS, signal);
+    yield { token: word };
+  }
+}
@@ -0,0 +1,96 @@
+export type DiffKind = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  kind: DiffKind;
+  text: string;
+}
+
+// Above this many table cells the changed middle is shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words and the whitespace between them are separate tokens so spacing survives
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) ?? [];
+
+const pushPart = (parts: DiffPart[], kind: DiffKind, text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.kind === kind) {
+    last.text += text;
+  } else {
+    parts.push({ kind, text });
+  }
+};
+
+/**
+ * Word-level diff from `before` to `after` via the longest common
+ * subsequence of tokens. The shared prefix and suffix are trimmed first so
+ * near-identical responses stay cheap.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    return [
+      { kind: 'same' as const, text: a.slice(0, prefix).join('') },
+      { kind: 'removed' as const, text: midA.join('') },
+      { kind: 'added' as const, text: midB.join('') },
+      { kind: 'same' as const, text: a.slice(a.length - suffix).join('') },
+    ].filter((part) => part.text !== '');
+  }
+
+  // lengths[i * cols + j] = LCS length of midA[i..] and midB[j..]
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = midA[i] === midB[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'same', a.slice(0, prefix).join(''));
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      pushPart(parts, 'same', midA[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      pushPart(parts, 'removed', midA[i++]);
+    } else {
+      pushPart(parts, 'added', midB[j++]);
+    }
+  }
+  while (i < midA.length) pushPart(parts, 'removed', midA[i++]);
+  while (j < midB.length) pushPart(parts, 'added', midB[j++]);
+
+  pushPart(parts, 'same', a.slice(a.length - suffix).join(''));
+  return parts.filter((part) => part.text !== '');
+};
+
+/** Share of words that are unchanged, from 0 to 1. */
+export const diffSimilarity = (parts: DiffPart[]) => {
+  const count = (kind: DiffKind) => parts
+    .filter((part) => part.kind === kind)
+    .reduce((total, part) => total + part.text.split(/\s+/).filter(Boolean).length, 0);
+  const same = count('same');
+  const total = same + Math.max(count('added'), count('removed'));
+  return total === 0 ? 1 : same / total;
+};
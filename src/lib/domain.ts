@@ -0,0 +1,161 @@
+import type { RunError } from '@/lib/api-errors';
+
+export type PresetName = 'creative' | 'balanced' | 'precise';
+
+/** Preset id of a config whose sampling params no longer match its preset. */
+export const CUSTOM_PRESET = 'custom';
+
+export interface SamplingParams {
+  temperature: number;
+  maxTokens: number;
+  topK: number;
+  topP: number;
+}
+
+/** Decoding controls beyond the core sampling params; presets leave them alone. */
+export interface GenerationOptions {
+  /** Generation ends at the first of these strings. */
+  stop: string[];
+  /** Divides the score of already generated tokens; 1 disables it. */
+  repetitionPenalty: number;
+  presencePenalty: number;
+  frequencyPenalty: number;
+  /** Fixed sampling seed for reproducible output; null samples randomly. */
+  seed: number | null;
+  /** Tokens generated before end-of-sequence is allowed. */
+  minLength: number;
+  /** Alternatives to report per generated token with its logprob; 0 turns logprobs off. */
+  topLogprobs: number;
+}
+
+export interface ModelConfig extends SamplingParams, GenerationOptions {
+  /** Previous exchanges sent with each prompt. */
+  contextTurns: number;
+  /** Responses sampled per prompt; the user picks a preferred one. */
+  candidates: number;
+  /** Instruction sent ahead of every prompt; stored per entry so a thread keeps its own. */
+  systemPrompt: string;
+  /** Id of the preset the sampling params came from, or `custom` once they diverge. */
+  preset: string;
+}
+
+export interface SamplingPreset {
+  id: string;
+  name: string;
+  params: SamplingParams;
+  /** Built-in presets cannot be edited, removed or reordered. */
+  builtIn?: boolean;
+}
+
+/** One generated token and how likely the model considered it. */
+export interface TokenLogprob {
+  token: string;
+  logprob: number;
+  /** Most likely tokens at this position, which may include the sampled one. */
+  topLogprobs?: Array<{ token: string; logprob: number }>;
+}
+
+/** One response when the same prompt is run with several configs at once. */
+export interface ResponseVariant {
+  config: ModelConfig;
+  response: string;
+  inferenceTime?: number;
+  timeToFirstToken?: number;
+  tokensUsed?: number;
+  logprobs?: TokenLogprob[];
+  streamed?: boolean;
+  cancelled?: boolean;
+  demo?: boolean;
+  error?: RunError;
+}
+
+export interface ChatMessage {
+  id: string;
+  /** Conversation this exchange belongs to; absent on pre-thread entries. */
+  threadId?: string;
+  /** Batch run that produced this entry, for entries from the batch runner. */
+  batchId?: string;
+  prompt: string;
+  response: string;
+  timestamp: Date;
+  config: ModelConfig;
+  inferenceTime?: number;
+  timeToFirstToken?: number;
+  tokensUsed?: number;
+  /** Per-token logprobs, when requested and reported by the backend. */
+  logprobs?: TokenLogprob[];
+  streamed?: boolean;
+  cancelled?: boolean;
+  demo?: boolean;
+  favorite?: boolean;
+  error?: RunError;
+  /** Side-by-side runs saved from compare mode; the entry itself only holds the shared prompt and config. */
+  comparison?: ResponseVariant[];
+  /** Alternative responses to the same prompt; the top-level fields mirror the preferred one. */
+  candidates?: ResponseVariant[];
+  preferredCandidate?: number;
+}
+
+export const PRESETS: Record<PresetName, SamplingParams> = {
+  creative: { temperature: 1.2, maxTokens: 200, topK: 80, topP: 0.95 },
+  balanced: { temperature: 0.7, maxTokens: 150, topK: 50, topP: 0.9 },
+  precise: { temperature: 0.3, maxTokens: 100, topK: 20, topP: 0.8 },
+};
+
+export const BUILT_IN_PRESETS: SamplingPreset[] = (Object.keys(PRESETS) as PresetName[]).map((id) => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  params: PRESETS[id],
+  builtIn: true,
+}));
+
+export const MAX_STOP_SEQUENCES = 4;
+export const MAX_SYSTEM_PROMPT_LENGTH = 4000;
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = {
+  stop: [],
+  repetitionPenalty: 1,
+  presencePenalty: 0,
+  frequencyPenalty: 0,
+  seed: null,
+  minLength: 0,
+  topLogprobs: 0,
+};
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  ...PRESETS.balanced,
+  ...DEFAULT_GENERATION_OPTIONS,
+  contextTurns: 6,
+  candidates: 1,
+  systemPrompt: '',
+  preset: 'balanced',
+};
+
+export const matchesParams = (config: SamplingParams, params: SamplingParams) =>
+  config.temperature === params.temperature &&
+  config.maxTokens === params.maxTokens &&
+  config.topK === params.topK &&
+  config.topP === params.topP;
+
+/**
+ * Short labels for generation options that differ from their defaults.
+ */
+export const describeGenerationOptions = (config: GenerationOptions): string[] => [
+  config.stop.length > 0 && `stop ×${config.stop.length}`,
+  config.repetitionPenalty !== DEFAULT_GENERATION_OPTIONS.repetitionPenalty && `rep ${config.repetitionPenalty}`,
+  config.presencePenalty !== DEFAULT_GENERATION_OPTIONS.presencePenalty && `pres ${config.presencePenalty}`,
+  config.frequencyPenalty !== DEFAULT_GENERATION_OPTIONS.frequencyPenalty && `freq ${config.frequencyPenalty}`,
+  config.seed !== null && `seed ${config.seed}`,
+  config.minLength > 0 && `min ${config.minLength}`,
+  config.topLogprobs > 0 && `logprobs ${config.topLogprobs}`,
+].filter((label): label is string => typeof label === 'string');
+
+/**
+ * Fills in fields a stored config may predate. Preset ids are kept even when
+ * the preset no longer exists, since history records what was used.
+ */
+export const normalizeConfig = (config: Partial<ModelConfig> | undefined): ModelConfig => ({
+  ...DEFAULT_MODEL_CONFIG,
+  ...config,
+  preset: typeof config?.preset === 'string' && config.preset ? config.preset : DEFAULT_MODEL_CONFIG.preset,
+});
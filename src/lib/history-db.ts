@@ -0,0 +1,262 @@
+import type { ChatMessage } from '@/lib/domain';
+import { HISTORY_STORAGE_KEY, deserializeHistory, migrateMessage } from '@/lib/history-storage';
+
+const DB_NAME = 'minigpt';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+// Entries dropped per attempt when the browser reports the quota is full
+const QUOTA_PRUNE_COUNT = 50;
+
+export const HISTORY_PAGE_SIZE = 100;
+
+const MIN_DATE = new Date(-8.64e15);
+const MAX_DATE = new Date(8.64e15);
+
+/** Raised when history cannot be written even after pruning old entries. */
+export class HistoryQuotaError extends Error {
+  constructor() {
+    super('Browser storage is full. Delete old history entries to keep saving new runs.');
+    this.name = 'HistoryQuotaError';
+  }
+}
+
+// Booleans are not valid IndexedDB keys, so favorites are indexed as 0/1
+type StoredRecord = ChatMessage & { favoriteRank: 0 | 1 };
+
+export interface HistoryQuery {
+  offset?: number;
+  limit?: number;
+  favoritesOnly?: boolean;
+  /** Entries whose preset id starts with this, like the `preset:` search filter. */
+  preset?: string;
+}
+
+export interface HistoryPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+const toRecord = (message: ChatMessage): StoredRecord => ({
+  ...message,
+  favoriteRank: message.favorite ? 1 : 0,
+});
+
+const fromRecord = (record: StoredRecord): ChatMessage | null => {
+  const { favoriteRank: _favoriteRank, ...message } = record;
+  return migrateMessage(message);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Copies the pre-IndexedDB localStorage blob into the store once, removing
+ * the old key only after the write has committed.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const legacy = localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (!legacy) return;
+
+  let messages: ChatMessage[];
+  try {
+    messages = deserializeHistory(legacy);
+  } catch {
+    messages = [];
+  }
+
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  messages.forEach((message) => store.put(toRecord(message)));
+  await transactionDone(transaction);
+
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+};
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('by-time', 'timestamp');
+        store.createIndex('by-favorite', ['favoriteRank', 'timestamp']);
+        store.createIndex('by-preset', ['config.preset', 'timestamp']);
+        store.createIndex('by-thread', 'threadId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async (db) => {
+      await migrateFromLocalStorage(db);
+      // Ask the browser not to evict history under storage pressure
+      navigator.storage?.persist?.().catch(() => undefined);
+      return db;
+    });
+
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const rangeFor = (query: HistoryQuery): { index: string; range?: IDBKeyRange } => {
+  if (query.favoritesOnly) {
+    return { index: 'by-favorite', range: IDBKeyRange.bound([1, MIN_DATE], [1, MAX_DATE]) };
+  }
+  if (query.preset) {
+    // Compound keys compare by preset first, so this spans every id with the prefix
+    return { index: 'by-preset', range: IDBKeyRange.bound([query.preset, MIN_DATE], [`${query.preset}\uffff`, MAX_DATE]) };
+  }
+  return { index: 'by-time' };
+};
+
+/**
+ * Reads one page of history, newest first.
+ */
+export const getHistoryPage = async (query: HistoryQuery = {}): Promise<HistoryPage> => {
+  const db = await openDb();
+  const { offset = 0, limit = HISTORY_PAGE_SIZE } = query;
+  const { index, range } = rangeFor(query);
+  const source = db.transaction(STORE).objectStore(STORE).index(index);
+
+  return new Promise((resolve, reject) => {
+    const messages: ChatMessage[] = [];
+    let skipped = offset === 0;
+    const request = source.openCursor(range, 'prev');
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve({ messages, hasMore: false });
+        return;
+      }
+      if (!skipped) {
+        skipped = true;
+        cursor.advance(offset);
+        return;
+      }
+      if (messages.length === limit) {
+        resolve({ messages, hasMore: true });
+        return;
+      }
+      const message = fromRecord(cursor.value);
+      if (message) messages.push(message);
+      cursor.continue();
+    };
+  });
+};
+
+export const getThreadMessages = async (threadId: string): Promise<ChatMessage[]> => {
+  const db = await openDb();
+  const index = db.transaction(STORE).objectStore(STORE).index('by-thread');
+  const records: StoredRecord[] = await requestToPromise(index.getAll(threadId));
+  return records.map(fromRecord).filter((message): message is ChatMessage => message !== null);
+};
+
+export const getMessageIds = async (): Promise<string[]> => {
+  const db = await openDb();
+  const keys = await requestToPromise(db.transaction(STORE).objectStore(STORE).getAllKeys());
+  return keys.map(String);
+};
+
+/** Deletes the oldest non-favorite entries to free space. */
+const pruneOldest = async (db: IDBDatabase, count: number) => {
+  const transaction = db.transaction(STORE, 'readwrite');
+  const request = transaction.objectStore(STORE).index('by-time').openCursor();
+  const removed: string[] = [];
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor || removed.length >= count) return;
+    const record: StoredRecord = cursor.value;
+    if (!record.favoriteRank) {
+      cursor.delete();
+      removed.push(record.id);
+    }
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  return removed;
+};
+
+/**
+ * Writes entries, pruning the oldest non-favorite history once if the
+ * browser storage quota is exceeded. Resolves with the ids of pruned entries.
+ */
+export const putMessages = async (messages: ChatMessage[]): Promise<string[]> => {
+  const db = await openDb();
+
+  const write = async () => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    messages.forEach((message) => store.put(toRecord(message)));
+    await transactionDone(transaction);
+  };
+
+  try {
+    await write();
+    return [];
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+
+    const removed = await pruneOldest(db, QUOTA_PRUNE_COUNT);
+    if (removed.length === 0) throw new HistoryQuotaError();
+    try {
+      await write();
+      return removed;
+    } catch (retryError) {
+      throw isQuotaError(retryError) ? new HistoryQuotaError() : retryError;
+    }
+  }
+};
+
+export const deleteMessages = async (ids: string[]) => {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  ids.forEach((id) => store.delete(id));
+  await transactionDone(transaction);
+};
+
+/**
+ * Removes all history, or only entries that are not favorited. Resolves
+ * with the removed entries so the caller can offer an undo.
+ */
+export const clearHistoryStore = async ({ keepFavorites = false } = {}): Promise<ChatMessage[]> => {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, 'readwrite');
+  const store = transaction.objectStore(STORE);
+  const removed: StoredRecord[] = [];
+
+  const range = keepFavorites ? IDBKeyRange.bound([0, MIN_DATE], [0, MAX_DATE]) : undefined;
+  const request = store.index('by-favorite').openCursor(range);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    removed.push(cursor.value);
+    cursor.delete();
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  return removed.map(fromRecord).filter((message): message is ChatMessage => message !== null);
+};
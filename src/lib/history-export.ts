@@ -0,0 +1,261 @@
+import { z } from 'zod';
+import { predictRequestFields } from '@/lib/api';
+import { MAX_CANDIDATES } from '@/lib/candidates';
+import type { ChatMessage } from '@/lib/domain';
+import { HISTORY_VERSION, migrateMessage, serializeHistory } from '@/lib/history-storage';
+import { groupThreads } from '@/lib/threads';
+
+export type ExportFormat = 'json' | 'jsonl' | 'markdown' | 'csv';
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  json: { label: 'JSON (re-importable)', extension: 'json', mimeType: 'application/json' },
+  jsonl: { label: 'JSONL (eval / fine-tuning)', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+};
+
+/** Raised when an imported file is not a history export. */
+export class HistoryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryImportError';
+  }
+}
+
+// Formats
+
+const oldestFirst = (messages: ChatMessage[]) =>
+  [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+// The flat formats get one record per variant of a saved comparison
+const expandComparisons = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.flatMap((message) => message.comparison
+    ? message.comparison.map((variant, index) => ({
+      ...message,
+      ...variant,
+      id: `${message.id}-${index + 1}`,
+      threadId: message.threadId ?? message.id,
+      comparison: undefined,
+    }))
+    : [message]);
+
+/**
+ * One record per exchange with the fields our eval and fine-tuning scripts
+ * read, using the backend's snake_case parameter names.
+ */
+const toJsonl = (messages: ChatMessage[]) =>
+  oldestFirst(messages)
+    .map((message) => JSON.stringify({
+      id: message.id,
+      thread_id: message.threadId ?? message.id,
+      batch_id: message.batchId ?? null,
+      timestamp: message.timestamp.toISOString(),
+      system_prompt: message.config.systemPrompt || null,
+      prompt: message.prompt,
+      response: message.response,
+      temperature: message.config.temperature,
+      max_tokens: message.config.maxTokens,
+      top_k: message.config.topK,
+      top_p: message.config.topP,
+      preset: message.config.preset,
+      stop: message.config.stop,
+      repetition_penalty: message.config.repetitionPenalty,
+      presence_penalty: message.config.presencePenalty,
+      frequency_penalty: message.config.frequencyPenalty,
+      seed: message.config.seed,
+      min_length: message.config.minLength,
+      top_logprobs: message.config.topLogprobs,
+      latency_ms: message.inferenceTime ?? null,
+      time_to_first_token_ms: message.timeToFirstToken ?? null,
+      tokens_used: message.tokensUsed ?? null,
+      cancelled: message.cancelled ?? false,
+      error: message.error?.message ?? null,
+    }))
+    .join('\n');
+
+const toMarkdown = (messages: ChatMessage[]) => {
+  const sections = groupThreads(messages).map((thread) => {
+    const exchanges = thread.messages.map((message) => {
+      const { temperature, maxTokens, topK, topP, preset } = message.config;
+      const meta = [
+        message.timestamp.toLocaleString(),
+        `${preset}, T ${temperature}, max ${maxTokens}, top-k ${topK}, top-p ${topP}`,
+        message.inferenceTime !== undefined && `${message.inferenceTime}ms`,
+        message.tokensUsed !== undefined && `${message.tokensUsed} tokens`,
+      ].filter(Boolean).join(' · ');
+      const response = message.error ? `> **Error:** ${message.error.message}` : message.response;
+      const system = message.config.systemPrompt ? `**System**\n\n${message.config.systemPrompt}\n\n` : '';
+
+      return `${system}**Prompt**\n\n${message.prompt}\n\n**Response**\n\n${response}\n\n_${meta}_`;
+    });
+
+    return `## ${thread.favorite ? '★ ' : ''}${thread.title}\n\n${exchanges.join('\n\n---\n\n')}`;
+  });
+
+  return `# MiniGPT History\n\n${sections.join('\n\n')}\n`;
+};
+
+const CSV_COLUMNS = [
+  'id', 'thread_id', 'batch_id', 'timestamp', 'system_prompt', 'prompt', 'response', 'preset', 'temperature', 'max_tokens',
+  'top_k', 'top_p', 'stop', 'repetition_penalty', 'presence_penalty', 'frequency_penalty', 'seed',
+  'min_length', 'latency_ms', 'tokens_used', 'favorite', 'error',
+];
+
+const csvCell = (value: unknown) => {
+  let text = value === undefined || value === null ? '' : String(value);
+  // Stop spreadsheets from evaluating prompts as formulas; numbers stay numeric
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (messages: ChatMessage[]) => {
+  const rows = oldestFirst(messages).map((message) => [
+    message.id,
+    message.threadId ?? message.id,
+    message.batchId,
+    message.timestamp.toISOString(),
+    message.config.systemPrompt,
+    message.prompt,
+    message.response,
+    message.config.preset,
+    message.config.temperature,
+    message.config.maxTokens,
+    message.config.topK,
+    message.config.topP,
+    message.config.stop.length ? JSON.stringify(message.config.stop) : '',
+    message.config.repetitionPenalty,
+    message.config.presencePenalty,
+    message.config.frequencyPenalty,
+    message.config.seed,
+    message.config.minLength,
+    message.inferenceTime,
+    message.tokensUsed,
+    message.favorite ?? false,
+    message.error?.message,
+  ].map(csvCell).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+};
+
+export const exportHistory = (messages: ChatMessage[], format: ExportFormat): ExportFile => {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const content = {
+    json: () => serializeHistory(oldestFirst(messages)),
+    jsonl: () => toJsonl(expandComparisons(messages)),
+    markdown: () => toMarkdown(expandComparisons(messages)),
+    csv: () => toCsv(expandComparisons(messages)),
+  }[format]();
+
+  return { filename: `minigpt-history-${Date.now()}.${extension}`, content, mimeType };
+};
+
+// Import
+
+// Same ranges as a request, so an imported config can be run again
+const { shape: requestFields } = predictRequestFields;
+const importedConfigSchema = z.object({
+  temperature: requestFields.temperature.optional(),
+  maxTokens: requestFields.max_tokens.optional(),
+  topK: requestFields.top_k.optional(),
+  topP: requestFields.top_p.optional(),
+  contextTurns: z.number().int().nonnegative().optional(),
+  candidates: z.number().int().min(1).max(MAX_CANDIDATES).optional(),
+  systemPrompt: requestFields.system,
+  stop: requestFields.stop,
+  repetitionPenalty: requestFields.repetition_penalty,
+  presencePenalty: requestFields.presence_penalty,
+  frequencyPenalty: requestFields.frequency_penalty,
+  seed: requestFields.seed.nullable(),
+  minLength: requestFields.min_length,
+  topLogprobs: requestFields.top_logprobs,
+  preset: z.string().optional(),
+});
+
+const importedErrorSchema = z.object({
+  status: z.number().optional(),
+  message: z.string(),
+});
+
+const importedLogprobSchema = z.object({
+  token: z.string(),
+  logprob: z.number(),
+  topLogprobs: z.array(z.object({ token: z.string(), logprob: z.number() })).optional(),
+});
+
+// Fields a message and each of its variants share
+const importedRunFields = {
+  response: z.string(),
+  config: importedConfigSchema.optional(),
+  inferenceTime: z.number().optional(),
+  timeToFirstToken: z.number().optional(),
+  tokensUsed: z.number().optional(),
+  logprobs: z.array(importedLogprobSchema).optional(),
+  streamed: z.boolean().optional(),
+  cancelled: z.boolean().optional(),
+  demo: z.boolean().optional(),
+  error: importedErrorSchema.optional(),
+};
+
+const importedVariantSchema = z.object(importedRunFields);
+
+// Unknown keys are stripped so nothing unvalidated reaches history
+const importedMessageSchema = z.object({
+  ...importedRunFields,
+  id: z.union([z.string(), z.number()]),
+  threadId: z.string().optional(),
+  batchId: z.string().optional(),
+  prompt: z.string(),
+  timestamp: z.union([z.string(), z.number()]),
+  favorite: z.boolean().optional(),
+  comparison: z.array(importedVariantSchema).optional(),
+  candidates: z.array(importedVariantSchema).optional(),
+  preferredCandidate: z.number().int().nonnegative().optional(),
+});
+
+const importFileSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ version: z.number(), messages: z.array(z.unknown()) }),
+]);
+
+export interface HistoryImport {
+  messages: ChatMessage[];
+  /** Entries that failed validation and were left out. */
+  skipped: number;
+}
+
+/**
+ * Validates a JSON history export. Invalid entries are skipped rather than
+ * failing the whole file; a file that is not an export at all throws.
+ */
+export const parseHistoryImport = (raw: string): HistoryImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new HistoryImportError('File is not valid JSON. Only JSON exports can be imported.');
+  }
+
+  const file = importFileSchema.safeParse(data);
+  if (!file.success) {
+    throw new HistoryImportError('File does not look like a history export.');
+  }
+  if (!Array.isArray(file.data) && file.data.version > HISTORY_VERSION) {
+    throw new HistoryImportError(`Export version ${file.data.version} is newer than this app supports.`);
+  }
+
+  const entries = Array.isArray(file.data) ? file.data : file.data.messages;
+  const messages = entries
+    .map((entry) => {
+      const parsed = importedMessageSchema.safeParse(entry);
+      return parsed.success ? migrateMessage(parsed.data) : null;
+    })
+    .filter((message): message is ChatMessage => message !== null);
+
+  return { messages, skipped: entries.length - messages.length };
+};
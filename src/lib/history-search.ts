@@ -0,0 +1,357 @@
+import type { ChatMessage } from '@/lib/domain';
+import type { ChatThread } from '@/lib/threads';
+
+export type HistorySort = 'relevance' | 'newest' | 'slowest' | 'tokens';
+
+/** Half-open `[start, end)` character range of a match. */
+export type MatchRange = [number, number];
+
+type NumberTest = (value: number) => boolean;
+
+export interface SearchFilters {
+  preset?: string;
+  temperature?: NumberTest;
+  tokens?: NumberTest;
+  latency?: NumberTest;
+  date?: NumberTest;
+  batch?: string;
+  flags: Array<'favorite' | 'error' | 'cancelled' | 'demo' | 'batch'>;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  thread: ChatThread;
+  /** Best matching exchange, used for the preview. */
+  message: ChatMessage;
+  score: number;
+  promptRanges: MatchRange[];
+  responseRanges: MatchRange[];
+}
+
+export const SEARCH_SYNTAX = [
+  { example: 'preset:creative', description: 'Preset name' },
+  { example: 'temp:0.5..1', description: 'Temperature range' },
+  { example: 'tokens:>100', description: 'Tokens used' },
+  { example: 'latency:<2s', description: 'Inference time (ms or s)' },
+  { example: 'date:2024-05-01..2024-05-31', description: 'Date or date range' },
+  { example: 'after:2024-05-01', description: 'Also before:' },
+  { example: 'batch:batch-lx2k', description: 'Entries from one batch run' },
+  { example: 'is:favorite', description: 'Also is:error, is:cancelled, is:demo, is:batch' },
+  { example: '"exact phrase"', description: 'Quoted text is matched as one term' },
+];
+
+// Query parsing
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Bounds covered by one value, e.g. a whole day for a date. */
+type Bounds = [number, number];
+
+const parseNumber = (value: string): Bounds | null => {
+  const number = Number(value);
+  return value !== '' && !isNaN(number) ? [number, number] : null;
+};
+
+const parseDuration = (value: string): Bounds | null => {
+  const match = /^(\d+(?:\.\d+)?)(ms|s)?$/.exec(value);
+  if (!match) return null;
+  const ms = Number(match[1]) * (match[2] === 's' ? 1000 : 1);
+  return [ms, ms];
+};
+
+const parseDay = (value: string): Bounds | null => {
+  if (!/^\d{4}-\d{2}(-\d{2})?$/.test(value)) return null;
+  // Local midnight, matching the dates shown in the panel
+  const start = new Date(`${value.length === 7 ? `${value}-01` : value}T00:00`);
+  if (isNaN(start.getTime())) return null;
+  if (value.length === 7) {
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+    return [start.getTime(), end.getTime() - 1];
+  }
+  return [start.getTime(), start.getTime() + DAY_MS - 1];
+};
+
+/**
+ * Parses `x`, `>x`, `>=x`, `<x`, `<=x` or `a..b` (either side optional)
+ * into a test. A value covers its whole bounds, so `date:2024-05-01` matches
+ * the full day and `date:>2024-05-01` starts the day after.
+ */
+const parseRange = (value: string, parse: (value: string) => Bounds | null): NumberTest | undefined => {
+  const comparison = /^(>=|<=|>|<)(.+)$/.exec(value);
+  if (comparison) {
+    const bounds = parse(comparison[2]);
+    if (!bounds) return undefined;
+    const [low, high] = bounds;
+    return {
+      '>': (v: number) => v > high,
+      '>=': (v: number) => v >= low,
+      '<': (v: number) => v < low,
+      '<=': (v: number) => v <= high,
+    }[comparison[1]];
+  }
+
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const low = from ? parse(from) : null;
+    const high = to ? parse(to) : null;
+    if ((from && !low) || (to && !high) || (!low && !high)) return undefined;
+    return (v) => (!low || v >= low[0]) && (!high || v <= high[1]);
+  }
+
+  const bounds = parse(value);
+  return bounds ? (v) => v >= bounds[0] && v <= bounds[1] : undefined;
+};
+
+const FLAG_ALIASES: Record<string, SearchFilters['flags'][number]> = {
+  favorite: 'favorite',
+  fav: 'favorite',
+  starred: 'favorite',
+  error: 'error',
+  failed: 'error',
+  cancelled: 'cancelled',
+  canceled: 'cancelled',
+  stopped: 'cancelled',
+  demo: 'demo',
+  batch: 'batch',
+};
+
+/**
+ * Splits a query into free-text terms and `key:value` filters. Tokens with
+ * an unknown key or an unparsable value are searched as text instead.
+ */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const terms: string[] = [];
+  const filters: SearchFilters = { flags: [] };
+  const tokens = query.match(/"[^"]*"|\S+/g) ?? [];
+
+  tokens.forEach((token) => {
+    if (token.startsWith('"')) {
+      // An unclosed quote leaves a bare `"word` token
+      const closed = token.length > 1 && token.endsWith('"');
+      const phrase = token.slice(1, closed ? -1 : undefined).trim().toLowerCase();
+      if (phrase) terms.push(phrase);
+      return;
+    }
+
+    const separator = token.indexOf(':');
+    const key = token.slice(0, separator).toLowerCase();
+    const value = token.slice(separator + 1).toLowerCase();
+    let handled = separator > 0 && value !== '';
+
+    if (handled) {
+      switch (key) {
+        case 'preset':
+          filters.preset = value;
+          break;
+        case 'temp':
+        case 'temperature':
+          handled = !!(filters.temperature = parseRange(value, parseNumber));
+          break;
+        case 'tokens':
+          handled = !!(filters.tokens = parseRange(value, parseNumber));
+          break;
+        case 'latency':
+        case 'time':
+          handled = !!(filters.latency = parseRange(value, parseDuration));
+          break;
+        case 'date':
+          handled = !!(filters.date = parseRange(value, parseDay));
+          break;
+        case 'after':
+          handled = !!(filters.date = parseRange(`>${value}`, parseDay));
+          break;
+        case 'before':
+          handled = !!(filters.date = parseRange(`<${value}`, parseDay));
+          break;
+        case 'batch':
+          filters.batch = value;
+          break;
+        case 'is':
+          // Own keys only, so `is:constructor` is not taken for a flag
+          handled = Object.prototype.hasOwnProperty.call(FLAG_ALIASES, value);
+          if (handled) filters.flags.push(FLAG_ALIASES[value]);
+          break;
+        default:
+          handled = false;
+      }
+    }
+
+    if (!handled) terms.push(token.toLowerCase());
+  });
+
+  return { terms, filters };
+};
+
+// Matching
+
+/** The configs an entry ran with; a saved comparison has one per variant. */
+export const entryConfigs = (message: ChatMessage) => message.comparison?.map((variant) => variant.config) ?? [message.config];
+
+/** The text an entry is searched and previewed by; a saved comparison joins its variants. */
+export const entryResponseText = (message: ChatMessage) =>
+  (message.comparison ?? [message]).map((run) => run.error?.message ?? run.response).join('\n');
+
+const matchesFilters = (message: ChatMessage, thread: ChatThread, filters: SearchFilters) => {
+  const configs = entryConfigs(message);
+  if (filters.preset && !configs.some((config) => config.preset.startsWith(filters.preset))) return false;
+  if (filters.temperature && !configs.some((config) => filters.temperature(config.temperature))) return false;
+  if (filters.tokens && (message.tokensUsed === undefined || !filters.tokens(message.tokensUsed))) return false;
+  if (filters.latency && (message.inferenceTime === undefined || !filters.latency(message.inferenceTime))) return false;
+  if (filters.date && !filters.date(message.timestamp.getTime())) return false;
+  if (filters.batch && !message.batchId?.startsWith(filters.batch)) return false;
+
+  return filters.flags.every((flag) => {
+    if (flag === 'favorite') return thread.favorite;
+    if (flag === 'error') return !!message.error;
+    if (flag === 'batch') return !!message.batchId;
+    return !!message[flag];
+  });
+};
+
+// Fuzzy matching only scans the start of long texts; substring hits search all of it
+const FUZZY_SCAN_LENGTH = 2000;
+
+const isWordStart = (text: string, index: number) => index === 0 || /\W/.test(text[index - 1]);
+
+interface TermMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+/**
+ * Scores one term against lower-cased text. Substring hits score highest,
+ * especially at a word start; otherwise the tightest in-order subsequence
+ * counts as a fuzzy hit if its letters are not spread too far apart.
+ */
+const matchTerm = (text: string, term: string): TermMatch | null => {
+  const first = text.indexOf(term);
+  if (first !== -1) {
+    const ranges: MatchRange[] = [];
+    for (let index = first; index !== -1; index = text.indexOf(term, index + term.length)) {
+      ranges.push([index, index + term.length]);
+    }
+    return { score: isWordStart(text, first) ? 3 : 2, ranges };
+  }
+
+  if (term.length < 3) return null;
+
+  const scanned = text.slice(0, FUZZY_SCAN_LENGTH);
+  let best: number[] | null = null;
+  for (let start = scanned.indexOf(term[0]); start !== -1; start = scanned.indexOf(term[0], start + 1)) {
+    const positions = [start];
+    for (let i = 1; i < term.length; i++) {
+      const next = scanned.indexOf(term[i], positions[i - 1] + 1);
+      if (next === -1) break;
+      positions.push(next);
+    }
+    if (positions.length < term.length) break;
+
+    const span = positions[positions.length - 1] - start + 1;
+    if (span <= term.length * 2 && (!best || span < best[best.length - 1] - best[0] + 1)) {
+      best = positions;
+    }
+  }
+
+  if (!best) return null;
+  const span = best[best.length - 1] - best[0] + 1;
+  return {
+    score: term.length / span,
+    ranges: best.map((position): MatchRange => [position, position + 1]),
+  };
+};
+
+const mergeRanges = (ranges: MatchRange[]) =>
+  [...ranges]
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+
+/** Every term must hit the prompt or the response; prompt hits weigh more. */
+const matchMessage = (message: ChatMessage, terms: string[]) => {
+  const prompt = message.prompt.toLowerCase();
+  const response = entryResponseText(message).toLowerCase();
+  const promptRanges: MatchRange[] = [];
+  const responseRanges: MatchRange[] = [];
+  let score = 0;
+
+  for (const term of terms) {
+    const inPrompt = matchTerm(prompt, term);
+    const inResponse = matchTerm(response, term);
+    if (!inPrompt && !inResponse) return null;
+
+    score += Math.max((inPrompt?.score ?? 0) * 1.5, inResponse?.score ?? 0);
+    if (inPrompt) promptRanges.push(...inPrompt.ranges);
+    if (inResponse) responseRanges.push(...inResponse.ranges);
+  }
+
+  return { score, promptRanges: mergeRanges(promptRanges), responseRanges: mergeRanges(responseRanges) };
+};
+
+const sorters: Record<HistorySort, (a: SearchResult, b: SearchResult) => number> = {
+  relevance: (a, b) => b.score - a.score || b.thread.updatedAt.getTime() - a.thread.updatedAt.getTime(),
+  newest: (a, b) => b.thread.updatedAt.getTime() - a.thread.updatedAt.getTime(),
+  slowest: (a, b) => (b.message.inferenceTime ?? -1) - (a.message.inferenceTime ?? -1),
+  tokens: (a, b) => (b.message.tokensUsed ?? -1) - (a.message.tokensUsed ?? -1),
+};
+
+/**
+ * Filters and ranks threads. Each thread is represented by its best matching
+ * exchange; with no text terms that is the latest one that passes the filters.
+ */
+export const searchThreads = (threads: ChatThread[], query: string, sort: HistorySort): SearchResult[] => {
+  const { terms, filters } = parseSearchQuery(query);
+  const results: SearchResult[] = [];
+
+  threads.forEach((thread) => {
+    let best: SearchResult | null = null;
+
+    // Latest first, so ties keep the most recent exchange
+    for (let i = thread.messages.length - 1; i >= 0; i--) {
+      const message = thread.messages[i];
+      if (!matchesFilters(message, thread, filters)) continue;
+
+      const match = matchMessage(message, terms);
+      if (match && (!best || match.score > best.score)) {
+        best = { thread, message, ...match };
+      }
+    }
+
+    if (best) results.push(best);
+  });
+
+  return results.sort(sorters[sort === 'relevance' && terms.length === 0 ? 'newest' : sort]);
+};
+
+/**
+ * Cuts `text` to about `length` characters, moving the window so the first
+ * match stays visible, and shifts the ranges to the excerpt.
+ */
+export const excerpt = (text: string, ranges: MatchRange[], length: number) => {
+  if (text.length <= length) return { text, ranges };
+
+  const firstMatch = ranges[0]?.[0] ?? 0;
+  const start = firstMatch > length - 20 ? Math.max(0, firstMatch - 40) : 0;
+  const end = Math.min(text.length, start + length);
+  const prefix = start > 0 ? '...' : '';
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '...' : ''}`,
+    ranges: ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]): MatchRange => [
+        Math.max(from, start) - start + prefix.length,
+        Math.min(to, end) - start + prefix.length,
+      ]),
+  };
+};
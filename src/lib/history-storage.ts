@@ -0,0 +1,70 @@
+import { type ChatMessage, type ModelConfig, type ResponseVariant, normalizeConfig } from '@/lib/domain';
+
+// History lived under this localStorage key before moving to IndexedDB
+export const HISTORY_STORAGE_KEY = 'minigpt-history';
+
+/**
+ * Version 1 was a bare JSON array of messages. Version 2 wraps them in
+ * `{ version, messages }` so later shape changes can be migrated.
+ */
+export const HISTORY_VERSION = 2;
+
+interface StoredHistory {
+  version: number;
+  messages: unknown[];
+}
+
+type StoredVariant = Partial<Omit<ResponseVariant, 'config'>> & { config?: Partial<ModelConfig> };
+
+type StoredMessage = Partial<Omit<ChatMessage, 'timestamp' | 'config' | 'comparison' | 'candidates'>> & {
+  timestamp?: string | number;
+  config?: Partial<ModelConfig>;
+  comparison?: StoredVariant[];
+  candidates?: StoredVariant[];
+};
+
+const migrateVariants = (variants: StoredVariant[] | undefined): ResponseVariant[] | undefined =>
+  Array.isArray(variants)
+    ? variants.map((variant) => ({
+      ...variant,
+      response: typeof variant.response === 'string' ? variant.response : '',
+      config: normalizeConfig(variant.config),
+    }))
+    : undefined;
+
+/**
+ * Upgrades one stored message to the current ChatMessage shape, or returns
+ * null when the entry is unusable.
+ */
+export const migrateMessage = (raw: unknown): ChatMessage | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const stored = raw as StoredMessage;
+  if (typeof stored.prompt !== 'string') return null;
+
+  const timestamp = new Date(stored.timestamp ?? Date.now());
+
+  return {
+    ...stored,
+    id: String(stored.id ?? timestamp.getTime()),
+    prompt: stored.prompt,
+    response: typeof stored.response === 'string' ? stored.response : '',
+    timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+    config: normalizeConfig(stored.config),
+    comparison: migrateVariants(stored.comparison),
+    candidates: migrateVariants(stored.candidates),
+  };
+};
+
+export const deserializeHistory = (raw: string): ChatMessage[] => {
+  const data: unknown = JSON.parse(raw);
+  const messages = Array.isArray(data) ? data : (data as StoredHistory)?.messages;
+
+  if (!Array.isArray(messages)) return [];
+  return messages.map(migrateMessage).filter((message): message is ChatMessage => message !== null);
+};
+
+export const serializeHistory = (messages: ChatMessage[]) => {
+  const stored: StoredHistory = { version: HISTORY_VERSION, messages };
+  return JSON.stringify(stored);
+};
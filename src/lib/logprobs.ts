@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { TokenLogprob } from '@/lib/domain';
+
+export const MAX_TOP_LOGPROBS = 10;
+
+// Rebuilt in the transform so the output type has required fields
+const alternativeSchema = z.object({
+  token: z.string(),
+  logprob: z.number(),
+}).transform(({ token, logprob }) => ({ token, logprob }));
+
+/** One generated token as the backend reports it, in snake_case. */
+export const tokenLogprobSchema = z.object({
+  token: z.string(),
+  logprob: z.number(),
+  top_logprobs: z.array(alternativeSchema).optional(),
+});
+
+export const toTokenLogprob = ({ token, logprob, top_logprobs }: z.infer<typeof tokenLogprobSchema>): TokenLogprob => ({
+  token,
+  logprob,
+  topLogprobs: top_logprobs,
+});
+
+export const toProbability = (logprob: number) => Math.exp(logprob);
+
+export interface LogprobSummary {
+  count: number;
+  /** exp of the mean negative log-likelihood; 1 means every token was certain. */
+  perplexity: number;
+  meanProbability: number;
+  /** The least likely sampled token. */
+  lowest: TokenLogprob;
+}
+
+export const summarizeLogprobs = (logprobs: TokenLogprob[]): LogprobSummary | null => {
+  if (logprobs.length === 0) return null;
+
+  const total = logprobs.reduce((sum, entry) => sum + entry.logprob, 0);
+  const lowest = logprobs.reduce((min, entry) => (entry.logprob < min.logprob ? entry : min));
+  return {
+    count: logprobs.length,
+    perplexity: Math.exp(-total / logprobs.length),
+    meanProbability: logprobs.reduce((sum, entry) => sum + toProbability(entry.logprob), 0) / logprobs.length,
+    lowest,
+  };
+};
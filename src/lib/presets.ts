@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { createStoredCollection } from '@/lib/collections';
+import { BUILT_IN_PRESETS, CUSTOM_PRESET, type ModelConfig, type SamplingPreset, matchesParams } from '@/lib/domain';
+
+export const PRESETS_STORAGE_KEY = 'minigpt-presets';
+
+const samplingParamsSchema = z.object({
+  temperature: z.number().min(0).max(2),
+  maxTokens: z.number().int().positive(),
+  topK: z.number().int().min(1),
+  topP: z.number().gt(0).max(1),
+});
+
+const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  params: samplingParamsSchema,
+});
+
+/** The user's own presets; their ids are what history records. */
+export const presetCollection = createStoredCollection<SamplingPreset>({
+  storageKey: PRESETS_STORAGE_KEY,
+  singular: 'preset',
+  plural: 'presets',
+  schema: presetSchema,
+  builtIns: BUILT_IN_PRESETS,
+  reservedIds: [CUSTOM_PRESET],
+  toStored: ({ id, name, params }) => ({ id, name, params }),
+});
+
+/**
+ * Applies config edits, switching the preset to `custom` once the sampling
+ * params no longer match the active preset.
+ */
+export const applyConfigChanges = (
+  config: ModelConfig,
+  changes: Partial<ModelConfig>,
+  presets: SamplingPreset[]
+): ModelConfig => {
+  const next = { ...config, ...changes };
+  const active = presets.find((preset) => preset.id === config.preset);
+  return { ...next, preset: active && matchesParams(next, active.params) ? active.id : CUSTOM_PRESET };
+};
@@ -0,0 +1,79 @@
+import { type ContextTurn, type PredictOptions, buildPredictRequest, predict } from '@/lib/api';
+import { toApiError, toRunError } from '@/lib/api-errors';
+import { type ConnectionProfile, buildEndpointUrl } from '@/lib/connections';
+import { demoTokenStream } from '@/lib/demo';
+import type { ModelConfig, ResponseVariant } from '@/lib/domain';
+
+/** How one run ended; a cancelled or failed run keeps the text received before it stopped. */
+export type RunOutcome = Omit<ResponseVariant, 'config'>;
+
+export interface RunPromptOptions extends Omit<PredictOptions, 'signal'> {
+  prompt: string;
+  config: ModelConfig;
+  context?: ContextTurn[];
+  /** Streams a canned response instead of calling the backend. */
+  demoMode: boolean;
+  signal: AbortSignal;
+}
+
+/**
+ * Runs one prompt against the profile's backend, or the demo stream, and
+ * settles with its outcome instead of throwing, so concurrent runs can fail
+ * or be stopped independently.
+ */
+export const runPrompt = async (
+  profile: ConnectionProfile,
+  { prompt, config, context, demoMode, signal, onToken, onStreamStart }: RunPromptOptions
+): Promise<RunOutcome> => {
+  const startTime = Date.now();
+  let text = '';
+  let timeToFirstToken: number | undefined;
+  let streamed = false;
+
+  const handleStreamStart = () => {
+    streamed = true;
+    onStreamStart?.();
+  };
+
+  const handleToken = (token: string, received: string) => {
+    timeToFirstToken ??= Date.now() - startTime;
+    text = received;
+    onToken?.(token, received);
+  };
+
+  try {
+    if (demoMode) {
+      handleStreamStart();
+      for await (const chunk of demoTokenStream(prompt, signal)) {
+        handleToken(chunk.token, text + chunk.token);
+      }
+      return { response: text, inferenceTime: Date.now() - startTime, timeToFirstToken, streamed, demo: true };
+    }
+
+    const result = await predict(profile, buildPredictRequest(prompt, config, context), {
+      signal,
+      onStreamStart: handleStreamStart,
+      onToken: handleToken,
+    });
+    return {
+      response: result.text,
+      inferenceTime: result.inferenceTime,
+      timeToFirstToken: result.timeToFirstToken,
+      tokensUsed: result.tokensUsed,
+      logprobs: result.logprobs,
+      streamed: result.streamed,
+    };
+  } catch (error) {
+    const apiError = toApiError(error, buildEndpointUrl(profile));
+    const partial = {
+      response: text,
+      inferenceTime: Date.now() - startTime,
+      timeToFirstToken,
+      streamed,
+      demo: demoMode || undefined,
+    };
+    return apiError.kind === 'aborted'
+      ? { ...partial, cancelled: true }
+      : { ...partial, error: toRunError(apiError) };
+  }
+};
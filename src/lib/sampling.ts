@@ -0,0 +1,71 @@
+import type { SamplingParams } from '@/lib/domain';
+
+export interface TokenScore {
+  token: string;
+  logprob: number;
+}
+
+export interface SampledToken {
+  token: string;
+  /** Probability before temperature and filtering. */
+  original: number;
+  /** Probability after temperature, top-k and top-p; 0 when filtered out. */
+  adjusted: number;
+  kept: boolean;
+}
+
+export const SYNTHETIC_CONTEXT = 'The cat sat on the';
+
+/** Plausible next-token log-probabilities for `SYNTHETIC_CONTEXT`. */
+export const SYNTHETIC_DISTRIBUTION: TokenScore[] = [
+  { token: ' mat', logprob: -0.9 },
+  { token: ' floor', logprob: -1.6 },
+  { token: ' couch', logprob: -2.1 },
+  { token: ' bed', logprob: -2.4 },
+  { token: ' windowsill', logprob: -2.9 },
+  { token: ' chair', logprob: -3.2 },
+  { token: ' roof', logprob: -3.6 },
+  { token: ' table', logprob: -3.9 },
+  { token: ' keyboard', logprob: -4.4 },
+  { token: ' grass', logprob: -4.8 },
+  { token: ' fence', logprob: -5.3 },
+  { token: ' moon', logprob: -6.5 },
+];
+
+const softmax = (scores: number[]) => {
+  const max = Math.max(...scores);
+  const weights = scores.map((score) => Math.exp(score - max));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight) => weight / total);
+};
+
+/**
+ * Applies temperature, then top-k, then top-p (nucleus) filtering to a
+ * distribution the way the backend samples, returning tokens from most to
+ * least likely. The most likely token always survives the filters.
+ */
+export const applySampling = (
+  distribution: TokenScore[],
+  { temperature, topK, topP }: Pick<SamplingParams, 'temperature' | 'topK' | 'topP'>
+): SampledToken[] => {
+  const sorted = [...distribution].sort((a, b) => b.logprob - a.logprob);
+  const original = softmax(sorted.map((entry) => entry.logprob));
+  const scaled = softmax(sorted.map((entry) => entry.logprob / Math.max(temperature, 0.01)));
+
+  // Top-p measures its cutoff against the top-k survivors renormalised
+  const topKTotal = scaled.slice(0, topK).reduce((sum, probability) => sum + probability, 0);
+  let cumulative = 0;
+  const kept = scaled.map((probability, index) => {
+    const keep = index === 0 || (index < topK && cumulative < topP);
+    cumulative += probability / topKTotal;
+    return keep;
+  });
+
+  const keptTotal = scaled.reduce((sum, probability, index) => sum + (kept[index] ? probability : 0), 0);
+  return sorted.map((entry, index) => ({
+    token: entry.token,
+    original: original[index],
+    adjusted: kept[index] ? scaled[index] / keptTotal : 0,
+    kept: kept[index],
+  }));
+};
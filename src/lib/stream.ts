@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { ApiError } from '@/lib/api-errors';
+import type { TokenLogprob } from '@/lib/domain';
+import { tokenLogprobSchema, toTokenLogprob } from '@/lib/logprobs';
+
+export interface StreamChunk {
+  token?: string;
+  tokensUsed?: number;
+  /** Logprob of this chunk's token, when the request asked for them. */
+  logprob?: TokenLogprob;
+  done?: boolean;
+}
+
+const STREAM_CONTENT_TYPES = ['text/event-stream', 'application/x-ndjson', 'application/jsonl'];
+
+export const isStreamingResponse = (response: Response) => {
+  const contentType = response.headers.get('content-type') || '';
+  return STREAM_CONTENT_TYPES.some((type) => contentType.includes(type));
+};
+
+// Accepts `{ token }`, `{ text }` or `{ delta }` payloads, an optional
+// `tokens_used` count, an optional `logprob` with `top_logprobs`, and either
+// `{ done: true }` or the `[DONE]` sentinel.
+export const streamChunkSchema = z.object({
+  token: z.string().optional(),
+  text: z.string().optional(),
+  delta: z.string().optional(),
+  tokens_used: z.number().int().nonnegative().optional(),
+  logprob: z.number().optional(),
+  top_logprobs: tokenLogprobSchema.shape.top_logprobs,
+  done: z.boolean().optional(),
+}).passthrough();
+
+const CHUNK_KEYS = Object.keys(streamChunkSchema.shape);
+
+// Only objects carrying a chunk field are validated; any other JSON value is
+// a plain-text token that happens to parse, such as `null` or `[1, 2]`
+const isChunkObject = (data: unknown): data is Record<string, unknown> =>
+  typeof data === 'object'
+  && data !== null
+  && !Array.isArray(data)
+  && CHUNK_KEYS.some((key) => key in data);
+
+const parsePayload = (payload: string): StreamChunk | null => {
+  if (!payload) return null;
+  const trimmed = payload.trim();
+  if (trimmed === '[DONE]') return { done: true };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch {
+    // Plain-text SSE events carry the token itself
+    return { token: payload };
+  }
+  if (typeof data === 'string') return { token: data };
+  if (!isChunkObject(data)) return { token: payload };
+
+  const result = streamChunkSchema.safeParse(data);
+  if (!result.success) {
+    throw new ApiError('invalid_response', `Malformed stream chunk: ${result.error.issues[0]?.message}`);
+  }
+
+  const token = result.data.token ?? result.data.text ?? result.data.delta;
+  const { logprob, top_logprobs } = result.data;
+  return {
+    token,
+    tokensUsed: result.data.tokens_used,
+    logprob: token !== undefined && logprob !== undefined
+      ? toTokenLogprob({ token, logprob, top_logprobs })
+      : undefined,
+    done: result.data.done === true,
+  };
+};
+
+/**
+ * Reads a streamed /api/predict response, either Server-Sent Events or
+ * newline-delimited JSON, and yields chunks as they arrive.
+ */
+export async function* readTokenStream(response: Response): AsyncGenerator<StreamChunk> {
+  if (!response.body) return;
+
+  const isSSE = (response.headers.get('content-type') || '').includes('text/event-stream');
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventData: string[] = [];
+
+  const handleLine = (line: string): StreamChunk | null => {
+    // Blank NDJSON lines are separators; blank SSE data is a whitespace token
+    if (!isSSE) return line.trim() ? parsePayload(line) : null;
+
+    if (line === '') {
+      const chunk = eventData.length ? parsePayload(eventData.join('\n')) : null;
+      eventData = [];
+      return chunk;
+    }
+    if (line.startsWith('data:')) {
+      eventData.push(line.slice(5).replace(/^ /, ''));
+    }
+    return null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        const chunk = handleLine(line);
+        if (!chunk) continue;
+        yield chunk;
+        if (chunk.done) return;
+      }
+
+      if (done) {
+        const chunk = handleLine('');
+        if (chunk) yield chunk;
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import { createStoredCollection } from '@/lib/collections';
+
+export const TEMPLATES_STORAGE_KEY = 'minigpt-templates';
+
+export const DEFAULT_TEMPLATE_CATEGORY = 'General';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  category: string;
+  /** Prompt text with `{{variable}}` placeholders. */
+  body: string;
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'summarize',
+    name: 'Summarize',
+    category: 'Writing',
+    body: 'Summarize the following text in {{length}} for {{audience}}:\n\n{{text}}',
+    builtIn: true,
+  },
+  {
+    id: 'rewrite-tone',
+    name: 'Rewrite in a tone',
+    category: 'Writing',
+    body: 'Rewrite the text below in a {{tone}} tone, keeping its meaning:\n\n{{text}}',
+    builtIn: true,
+  },
+  {
+    id: 'explain-code',
+    name: 'Explain code',
+    category: 'Code',
+    body: 'Explain what this {{language}} code does, step by step:\n\n{{code}}',
+    builtIn: true,
+  },
+  {
+    id: 'write-tests',
+    name: 'Write unit tests',
+    category: 'Code',
+    body: 'Write {{framework}} unit tests covering the edge cases of this function:\n\n{{code}}',
+    builtIn: true,
+  },
+  {
+    id: 'translate',
+    name: 'Translate',
+    category: 'Language',
+    body: 'Translate the following from {{source}} to {{target}}:\n\n{{text}}',
+    builtIn: true,
+  },
+];
+
+const templateSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  category: z.string().trim().min(1).catch(DEFAULT_TEMPLATE_CATEGORY),
+  body: z.string().min(1),
+});
+
+export const templateCollection = createStoredCollection<PromptTemplate>({
+  storageKey: TEMPLATES_STORAGE_KEY,
+  singular: 'template',
+  plural: 'templates',
+  schema: templateSchema,
+  builtIns: BUILT_IN_TEMPLATES,
+  toStored: ({ id, name, category, body }) => ({ id, name, category, body }),
+});
+
+// Variables
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z_][\w-]*)\s*\}\}/g;
+
+/** Variable names in order of first appearance. */
+export const extractVariables = (body: string): string[] =>
+  [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]))];
+
+/** Replaces each placeholder with its value; placeholders without one are kept. */
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/** Categories in first-seen order, for grouping the picker. */
+export const templateCategories = (templates: PromptTemplate[]) =>
+  [...new Set(templates.map((template) => template.category))];
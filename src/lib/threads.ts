@@ -0,0 +1,61 @@
+import type { ContextTurn } from '@/lib/api';
+import type { ChatMessage } from '@/lib/domain';
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  /** Exchanges in conversation order, oldest first. */
+  messages: ChatMessage[];
+  updatedAt: Date;
+  /** Pinned threads have at least one favorited exchange. */
+  favorite: boolean;
+}
+
+// Entries saved before threads existed are treated as single-exchange threads
+export const getThreadId = (message: ChatMessage) => message.threadId ?? message.id;
+
+/**
+ * Groups a flat history into threads, most recently active first.
+ */
+export const groupThreads = (history: ChatMessage[]): ChatThread[] => {
+  const threads = new Map<string, ChatMessage[]>();
+
+  history.forEach((message) => {
+    const threadId = getThreadId(message);
+    const messages = threads.get(threadId) ?? [];
+    messages.push(message);
+    threads.set(threadId, messages);
+  });
+
+  return Array.from(threads.entries())
+    .map(([id, messages]) => {
+      const ordered = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+      return {
+        id,
+        title: ordered[0].prompt,
+        messages: ordered,
+        updatedAt: ordered[ordered.length - 1].timestamp,
+        favorite: ordered.some((message) => message.favorite),
+      };
+    })
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+/**
+ * Assembles the conversation sent to the backend: the last `maxTurns`
+ * exchanges of the thread followed by the new prompt.
+ */
+export const buildContext = (messages: ChatMessage[], prompt: string, maxTurns: number): ContextTurn[] => {
+  // Failed runs never reached the model, so they are not part of the conversation
+  const completed = messages.filter((message) => !message.error);
+  const previous = maxTurns > 0 ? completed.slice(-maxTurns) : [];
+
+  return [
+    ...previous.flatMap((message): ContextTurn[] => [
+      { role: 'user', content: message.prompt },
+      // Runs stopped before any output leave no assistant turn
+      ...(message.response ? [{ role: 'assistant' as const, content: message.response }] : []),
+    ]),
+    { role: 'user', content: prompt },
+  ];
+};
@@ -1,57 +1,147 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { PromptInput } from '@/components/PromptInput';
-import { OutputBox } from '@/components/OutputBox';
+import { SystemPromptEditor } from '@/components/SystemPromptEditor';
+import { TemplatePicker } from '@/components/TemplatePicker';
+import { TemplateFillDialog } from '@/components/TemplateFillDialog';
+import { TemplateEditorDialog } from '@/components/TemplateEditorDialog';
+import { ThreadView } from '@/components/ThreadView';
+import { CompareView } from '@/components/CompareView';
+import { DiffDialog } from '@/components/DiffDialog';
+import { BatchRunDialog } from '@/components/BatchRunDialog';
 import { SettingsPanel } from '@/components/SettingsPanel';
 import { HistoryPanel } from '@/components/HistoryPanel';
+import { ConnectionProfiles } from '@/components/ConnectionProfiles';
 import { ThemeToggle } from '@/components/ThemeToggle';
+import { ToastAction } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
-import { Settings, History, Cpu, Activity, Zap, Signal } from 'lucide-react';
+import { Settings, History, Cpu, Activity, Zap, Signal, MessageSquarePlus, Box, Columns3, ListChecks } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useConnections } from '@/hooks/use-connections';
+import { useHistory } from '@/hooks/use-history';
+import { useParallelRuns } from '@/hooks/use-parallel-runs';
+import { useBatchRun } from '@/hooks/use-batch-run';
+import { usePresets } from '@/hooks/use-presets';
+import { useTemplates } from '@/hooks/use-templates';
+import { useBackendHealth, type BackendStatus } from '@/hooks/use-backend-health';
+import { buildPredictRequest, predict } from '@/lib/api';
+import { type ChatMessage, type ModelConfig, DEFAULT_MODEL_CONFIG, PRESETS } from '@/lib/domain';
+import { DEMO_MODE_STORAGE_KEY } from '@/lib/demo';
+import { buildContext, groupThreads } from '@/lib/threads';
+import { candidateFields, getCandidates } from '@/lib/candidates';
+import { runPrompt } from '@/lib/runs';
+import { presetCollection } from '@/lib/presets';
+import { EXPORT_FORMATS, type ExportFormat, exportHistory, parseHistoryImport } from '@/lib/history-export';
+import { createBatchId } from '@/lib/batch';
+import { MAX_TOP_LOGPROBS } from '@/lib/logprobs';
+import type { FetchedDistribution } from '@/components/SamplingExplainer';
+import { downloadFile } from '@/lib/download';
+import { type PromptTemplate, templateCategories, templateCollection } from '@/lib/templates';
 
-interface ModelConfig {
-  temperature: number;
-  maxTokens: number;
-  topK: number;
-  topP: number;
-  preset: 'creative' | 'balanced' | 'precise';
-}
-
-interface ChatMessage {
-  id: string;
-  prompt: string;
-  response: string;
-  timestamp: Date;
-  config: ModelConfig;
-  inferenceTime?: number;
-  tokensUsed?: number;
-}
+// How long deleted history can be restored from the toast
+const UNDO_GRACE_MS = 8000;
+
+const statusStyles: Record<BackendStatus, { dot: string; text: string; label: string; title: string }> = {
+  checking: { dot: 'bg-slate-400/80', text: 'text-slate-400', label: 'CHECKING', title: 'Connecting' },
+  online: { dot: 'bg-emerald-400/80', text: 'text-emerald-400/80', label: 'ONLINE', title: 'System Ready' },
+  degraded: { dot: 'bg-amber-400/80', text: 'text-amber-400/80', label: 'DEGRADED', title: 'System Degraded' },
+  offline: { dot: 'bg-red-500/80', text: 'text-red-400/80', label: 'OFFLINE', title: 'Backend Offline' },
+};
 
 const Index = () => {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [currentResponse, setCurrentResponse] = useState('');
+  const [pendingPrompt, setPendingPrompt] = useState('');
+  const [isStreamed, setIsStreamed] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [lastGeneratedId, setLastGeneratedId] = useState<string | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [demoMode, setDemoMode] = useState(() => localStorage.getItem(DEMO_MODE_STORAGE_KEY) === 'true');
   const [showSettings, setShowSettings] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
-  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
-  const [config, setConfig] = useState<ModelConfig>({
-    temperature: 0.7,
-    maxTokens: 150,
-    topK: 50,
-    topP: 0.9,
-    preset: 'balanced'
-  });
+  const [config, setConfig] = useState<ModelConfig>(DEFAULT_MODEL_CONFIG);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareConfigs, setCompareConfigs] = useState<ModelConfig[]>([
+    DEFAULT_MODEL_CONFIG,
+    { ...DEFAULT_MODEL_CONFIG, ...PRESETS.creative, preset: 'creative' },
+  ]);
+  const [comparePrompt, setComparePrompt] = useState('');
+  const [isComparisonSaved, setIsComparisonSaved] = useState(false);
+  const [diffEntries, setDiffEntries] = useState<[ChatMessage, ChatMessage] | null>(null);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<Partial<PromptTemplate> | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+  const [batchId, setBatchId] = useState<string | null>(null);
+
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const { toast } = useToast();
   const isMobile = useIsMobile();
+  const { profiles, activeProfile, setActiveProfile, saveProfile, removeProfile } = useConnections();
+  const health = useBackendHealth(activeProfile);
+  const {
+    presets,
+    createPreset,
+    updatePreset,
+    removePreset,
+    movePreset,
+    importPresetFile,
+    exportPresetFile,
+  } = usePresets();
+  const {
+    templates,
+    customTemplates,
+    createTemplate,
+    updateTemplate,
+    removeTemplate,
+    importTemplateFile,
+    exportTemplateFile,
+  } = useTemplates();
+  const {
+    runs: comparisonRuns,
+    isRunning: isComparing,
+    run: runComparison,
+    stop: stopComparison,
+  } = useParallelRuns(activeProfile, demoMode);
+  const {
+    runs: candidateRuns,
+    run: runCandidates,
+    stop: stopCandidates,
+  } = useParallelRuns(activeProfile, demoMode);
+  const {
+    items: batchItems,
+    isRunning: isBatchRunning,
+    run: runBatch,
+    stop: stopBatch,
+  } = useBatchRun(activeProfile, demoMode);
+  const isBusy = isGenerating || isComparing;
+  const statusStyle = statusStyles[health.status];
+  const modelLabel = [health.modelName, health.modelVersion].filter(Boolean).join(' ');
+  const {
+    history: chatHistory,
+    hasMore: hasMoreHistory,
+    isLoading: isHistoryLoading,
+    loadMore: loadMoreHistory,
+    loadThread,
+    loadPreset,
+    addMessage,
+    updateMessage,
+    setFavorite,
+    deleteThreads,
+    deleteMessage,
+    restoreMessages,
+    getExportMessages,
+    importMessages,
+    clearHistory: clearStoredHistory,
+  } = useHistory();
 
-  // Load history from localStorage
-  useEffect(() => {
-    const savedHistory = localStorage.getItem('minigpt-history');
-    if (savedHistory) {
-      setChatHistory(JSON.parse(savedHistory));
-    }
-  }, []);
+  const threads = useMemo(() => groupThreads(chatHistory), [chatHistory]);
+  const activeMessages = useMemo(
+    () => threads.find((thread) => thread.id === activeThreadId)?.messages ?? [],
+    [threads, activeThreadId]
+  );
 
   // Auto-close panels on mobile when generating
   useEffect(() => {
@@ -61,14 +151,23 @@ const Index = () => {
     }
   }, [isMobile, isGenerating]);
 
-  // Save history to localStorage
-  const saveHistory = (newHistory: ChatMessage[]) => {
-    localStorage.setItem('minigpt-history', JSON.stringify(newHistory));
-    setChatHistory(newHistory);
-  };
+  // Cmd/Ctrl+K opens the template picker from anywhere
+  useEffect(() => {
+    const handleShortcut = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setShowTemplates((open) => !open);
+      }
+    };
 
-  const handleGenerate = async () => {
-    if (!prompt.trim()) {
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  const handleGenerate = async (retryPrompt?: string) => {
+    const promptText = retryPrompt ?? prompt;
+
+    if (!promptText.trim()) {
       toast({
         title: "Empty prompt",
         description: "Please enter a prompt to generate text.",
@@ -77,101 +176,448 @@ const Index = () => {
       return;
     }
 
+    const threadId = activeThreadId ?? Date.now().toString();
+    const context = buildContext(activeMessages, promptText, config.contextTurns);
+
     setIsGenerating(true);
     setCurrentResponse('');
+    setPendingPrompt(promptText);
+    if (!retryPrompt) setPrompt('');
+    setIsStreamed(false);
+    setActiveThreadId(threadId);
 
     if (isMobile) {
       setShowSettings(false);
       setShowHistory(false);
     }
 
-    try {
-      const startTime = Date.now();
-      
-      const response = await fetch('/api/predict', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: prompt,
-          temperature: config.temperature,
-          max_tokens: config.maxTokens,
-          top_k: config.topK,
-          top_p: config.topP
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to generate text');
-      }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      const data = await response.json();
-      const inferenceTime = Date.now() - startTime;
-      
+    const recordMessage = (fields: Partial<ChatMessage>) => {
       const newMessage: ChatMessage = {
         id: Date.now().toString(),
-        prompt,
-        response: data.generated_text || 'Sample generated response from MiniGPT-MLOps model...',
+        threadId,
+        prompt: promptText,
+        response: '',
         timestamp: new Date(),
         config,
-        inferenceTime,
-        tokensUsed: data.tokens_used || 42
+        // New exchanges stay pinned with the rest of a favorited thread
+        favorite: activeMessages.some((message) => message.favorite) || undefined,
+        ...fields
       };
+      setLastGeneratedId(newMessage.id);
+      addMessage(newMessage);
+      return newMessage;
+    };
+
+    try {
+      if (config.candidates > 1) {
+        setIsStreamed(true);
+        const variants = await runCandidates(
+          promptText,
+          Array.from({ length: config.candidates }, () => config),
+          context
+        );
+        const usable = variants.filter((variant) => !variant.error);
 
-      setCurrentResponse(newMessage.response);
-      const updatedHistory = [newMessage, ...chatHistory];
-      saveHistory(updatedHistory);
+        if (usable.length === 0) {
+          // Every candidate failed, so record it like a single failed run
+          recordMessage({ error: variants[0].error });
+          toast({
+            title: "Generation failed",
+            description: variants[0].error.message,
+            variant: "destructive"
+          });
+          return;
+        }
 
+        recordMessage(candidateFields(usable, 0));
+        const failed = variants.length - usable.length;
+        toast({
+          title: usable.some((variant) => variant.cancelled) ? "Generation stopped" : "Candidates ready",
+          description: `${usable.length} of ${variants.length} candidates kept${failed > 0 ? `; ${failed} failed` : ''}.`,
+        });
+        return;
+      }
+
+      const outcome = await runPrompt(activeProfile, {
+        prompt: promptText,
+        config,
+        context,
+        demoMode,
+        signal: controller.signal,
+        onStreamStart: () => setIsStreamed(true),
+        onToken: (_token, text) => setCurrentResponse(text),
+      });
+      const newMessage = recordMessage(outcome);
+
+      if (outcome.cancelled) {
+        // Whatever arrived before the user stopped the run is kept
+        toast({
+          title: "Generation stopped",
+          description: outcome.response
+            ? "Partial output was kept in history."
+            : "Stopped before any output was received.",
+        });
+      } else if (outcome.error) {
+        toast({
+          title: outcome.error.status ? `Generation failed (HTTP ${outcome.error.status})` : "Generation failed",
+          description: outcome.error.message,
+          variant: "destructive"
+        });
+      } else if (outcome.demo) {
+        toast({
+          title: "Demo response",
+          description: "Demo mode is on — this output was not produced by the model.",
+        });
+      } else {
+        toast({
+          title: "Generated successfully",
+          description: `Response ready in ${newMessage.inferenceTime}ms`,
+        });
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setPendingPrompt('');
+      setCurrentResponse('');
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (!prompt.trim()) {
       toast({
-        title: "Generated successfully",
-        description: `Response ready in ${inferenceTime}ms`,
+        title: "Empty prompt",
+        description: "Please enter a prompt to compare configurations.",
+        variant: "destructive"
       });
+      return;
+    }
 
-    } catch (error) {
-      const mockResponse = `This is a demonstration of MiniGPT-MLOps generating text based on your prompt: "${prompt}"\n\nThe model would process this input using the transformer architecture with the configured parameters. In a production environment, this would connect to your FastAPI backend at the /predict endpoint.`;
-      
-      const newMessage: ChatMessage = {
-        id: Date.now().toString(),
-        prompt,
-        response: mockResponse,
-        timestamp: new Date(),
-        config,
-        inferenceTime: 1200,
-        tokensUsed: 85
-      };
+    // The prompt stays in the input so it can be rerun after tweaking configs
+    const promptText = prompt;
+    setComparePrompt(promptText);
+    setIsComparisonSaved(false);
+    if (isMobile) {
+      setShowSettings(false);
+      setShowHistory(false);
+    }
 
-      setCurrentResponse(newMessage.response);
-      const updatedHistory = [newMessage, ...chatHistory];
-      saveHistory(updatedHistory);
+    // Every variant answers under the same instruction so only sampling differs
+    const configs = compareConfigs.map((variant) => ({ ...variant, systemPrompt: config.systemPrompt }));
+    const results = await runComparison(promptText, configs);
+    const failed = results.filter((variant) => variant.error).length;
+    if (results.some((variant) => variant.cancelled)) {
+      toast({ title: "Comparison stopped", description: "Partial outputs were kept." });
+    } else if (failed > 0) {
+      toast({
+        title: "Comparison finished with errors",
+        description: `${failed} of ${results.length} runs failed.`,
+        variant: "destructive"
+      });
+    } else {
+      toast({
+        title: "Comparison complete",
+        description: `${results.length} configurations finished.`,
+      });
+    }
+  };
+
+  const handleSaveComparison = () => {
+    if (comparisonRuns.length === 0) return;
+
+    // Each variant's result lives only in `comparison`
+    const id = Date.now().toString();
+    addMessage({
+      id,
+      threadId: id,
+      prompt: comparePrompt,
+      response: '',
+      config,
+      timestamp: new Date(),
+      comparison: comparisonRuns,
+    });
+    setIsComparisonSaved(true);
+    toast({
+      title: "Comparison saved",
+      description: "All variants were saved as one history entry.",
+    });
+  };
+
+  const handleCompareModeToggle = () => {
+    if (!compareMode) {
+      // Start from the config the user is currently working with
+      setCompareConfigs((prev) => [config, ...prev.slice(1)]);
+    }
+    setCompareMode(!compareMode);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    stopCandidates();
+  };
+
+  const handleRegenerate = async (message: ChatMessage) => {
+    if (isBusy) return;
+
+    const earlier = activeMessages.filter((m) => m.timestamp < message.timestamp);
+    const context = buildContext(earlier, message.prompt, message.config.contextTurns);
+    setRegeneratingId(message.id);
+    setIsGenerating(true);
+
+    try {
+      const [variant] = await runCandidates(message.prompt, [message.config], context);
+      if (variant.error) {
+        toast({
+          title: variant.error.status ? `Regenerate failed (HTTP ${variant.error.status})` : "Regenerate failed",
+          description: variant.error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+      if (variant.cancelled && !variant.response) {
+        toast({ title: "Regenerate stopped", description: "Stopped before any output was received." });
+        return;
+      }
 
+      const candidates = [...getCandidates(message), variant];
+      updateMessage({ ...message, ...candidateFields(candidates, candidates.length - 1) });
       toast({
-        title: "Demo mode",
-        description: "Connect to FastAPI backend for live generation",
+        title: "Response regenerated",
+        description: `Candidate ${candidates.length} of ${candidates.length} is now preferred.`,
       });
     } finally {
+      setRegeneratingId(null);
       setIsGenerating(false);
     }
   };
 
-  const handleHistorySelect = (message: ChatMessage) => {
-    setPrompt(message.prompt);
-    setCurrentResponse(message.response);
-    setConfig(message.config);
+  const handlePreferCandidate = (message: ChatMessage, index: number) => {
+    updateMessage({ ...message, ...candidateFields(getCandidates(message), index) });
+  };
+
+  const handleRetry = (message: ChatMessage) => {
+    if (isGenerating) return;
+    handleGenerate(message.prompt);
+  };
+
+  const handleDemoModeChange = (enabled: boolean) => {
+    localStorage.setItem(DEMO_MODE_STORAGE_KEY, String(enabled));
+    setDemoMode(enabled);
+  };
+
+  const handleThreadSelect = (threadId: string) => {
+    if (isBusy) return;
+
+    const thread = threads.find((t) => t.id === threadId);
+    if (!thread) return;
+
+    const latest = thread.messages[thread.messages.length - 1];
+    setActiveThreadId(threadId);
+    setLastGeneratedId(null);
+    setCompareMode(false);
+    setPrompt('');
+    setConfig(latest.config);
+    // The thread may extend past the loaded history pages
+    loadThread(threadId);
     if (isMobile) {
       setShowHistory(false);
     }
   };
 
-  const clearHistory = () => {
-    localStorage.removeItem('minigpt-history');
-    setChatHistory([]);
+  const handleNewThread = () => {
+    setActiveThreadId(null);
+    setLastGeneratedId(null);
+    setPrompt('');
+  };
+
+  const handleToggleFavorite = (threadId: string) => {
+    const thread = threads.find((t) => t.id === threadId);
+    if (!thread) return;
+    setFavorite(thread.messages, !thread.favorite);
+  };
+
+  const showUndoToast = (title: string, description: string, removed: ChatMessage[]) => {
+    toast({
+      title,
+      description,
+      duration: UNDO_GRACE_MS,
+      action: (
+        <ToastAction altText="Restore deleted history" onClick={() => restoreMessages(removed)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleDeleteThreads = async (threadIds: string[]) => {
+    const removed = await deleteThreads(threadIds);
+    if (removed.length === 0) return;
+
+    if (activeThreadId && threadIds.includes(activeThreadId)) {
+      handleNewThread();
+    }
+    showUndoToast(
+      threadIds.length === 1 ? "Conversation deleted" : `${threadIds.length} conversations deleted`,
+      `${removed.length} ${removed.length === 1 ? 'entry was' : 'entries were'} removed from history.`,
+      removed
+    );
+  };
+
+  const handleDeleteMessage = async (message: ChatMessage) => {
+    const removed = await deleteMessage(message);
+    if (removed.length === 0) return;
+
+    if (activeMessages.length === 1 && activeMessages[0].id === message.id) {
+      handleNewThread();
+    }
+    showUndoToast("Entry deleted", "The exchange was removed from history.", removed);
+  };
+
+  const clearHistory = async (includeFavorites: boolean) => {
+    const removed = await clearStoredHistory({ includeFavorites });
+    if (includeFavorites || !activeMessages.some((message) => message.favorite)) {
+      setActiveThreadId(null);
+    }
+    showUndoToast(
+      "History cleared",
+      includeFavorites
+        ? "All conversation history has been removed."
+        : "History was removed. Favorites were kept.",
+      removed
+    );
+  };
+
+  const handleDiff = (threadIds: [string, string]) => {
+    const latest = threadIds
+      .map((id) => threads.find((thread) => thread.id === id))
+      .filter(Boolean)
+      .map((thread) => thread.messages[thread.messages.length - 1])
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    if (latest.length === 2 && !latest.some((message) => message.comparison)) setDiffEntries([latest[0], latest[1]]);
+  };
+
+  // Presets and templates share one export file format
+  const exportCollection = ({ plural }: { plural: string }, content: string) => {
+    downloadFile(`minigpt-${plural}-${Date.now()}.json`, content, 'application/json');
+  };
+
+  const importCollection = async (
+    { singular, plural }: { singular: string; plural: string },
+    importFile: (raw: string) => number,
+    file: File
+  ) => {
+    try {
+      const count = importFile(await file.text());
+      toast({
+        title: `${plural.charAt(0).toUpperCase()}${plural.slice(1)} imported`,
+        description: `${count} ${count === 1 ? `${singular} was` : `${plural} were`} added or updated.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleExportPresets = () => exportCollection(presetCollection, exportPresetFile());
+
+  const handleImportPresets = (file: File) => importCollection(presetCollection, importPresetFile, file);
+
+  const handleSaveTemplate = (fields: Pick<PromptTemplate, 'name' | 'category' | 'body'>, id?: string) => {
+    const existing = id ? customTemplates.find((template) => template.id === id) : undefined;
+    if (existing) {
+      updateTemplate({ ...existing, ...fields });
+    } else {
+      createTemplate(fields);
+    }
+    toast({ title: "Template saved", description: `"${fields.name}" is in your template library.` });
+  };
+
+  const handleExportTemplates = () => exportCollection(templateCollection, exportTemplateFile());
+
+  const handleImportTemplates = (file: File) => importCollection(templateCollection, importTemplateFile, file);
+
+  // One token with raw sampling settings, so the preview can reshape it itself
+  const fetchNextTokenDistribution = async (): Promise<FetchedDistribution> => {
+    if (demoMode) throw new Error('Turn off demo mode to use the backend.');
+    if (!prompt.trim()) throw new Error('Type a prompt first.');
+
+    const request = buildPredictRequest(
+      prompt,
+      { ...config, temperature: 1, topK: 100, topP: 1, maxTokens: 1, minLength: 0, topLogprobs: MAX_TOP_LOGPROBS },
+      buildContext(activeMessages, prompt, config.contextTurns)
+    );
+    const result = await predict(activeProfile, request);
+    const alternatives = result.logprobs?.[0]?.topLogprobs;
+    if (!alternatives?.length) throw new Error('The backend did not return token probabilities.');
+    return { context: prompt, distribution: alternatives };
+  };
+
+  const handleBatchRun = async (prompts: string[], concurrency: number) => {
+    const id = createBatchId();
+    setBatchId(id);
+    const results = await runBatch(id, prompts, config, concurrency, addMessage);
+
+    const failed = results.filter((message) => message.error).length;
+    const skipped = prompts.length - results.length;
     toast({
-      title: "History cleared",
-      description: "All conversation history has been removed.",
+      title: skipped > 0 || results.some((message) => message.cancelled) ? "Batch stopped" : "Batch finished",
+      description: [
+        `${results.length - failed} of ${prompts.length} prompts completed`,
+        failed > 0 && `${failed} failed`,
+        skipped > 0 && `${skipped} skipped`,
+      ].filter(Boolean).join(', ') + `. Search history for batch:${id}.`,
+      variant: failed > 0 ? "destructive" : undefined,
     });
   };
 
+  const handleBatchExport = (format: ExportFormat) => {
+    const messages = batchItems.flatMap((item) => (item.message ? [item.message] : []));
+    if (messages.length === 0) return;
+
+    const file = exportHistory(messages, format);
+    const filename = `minigpt-${batchId ?? 'batch'}.${EXPORT_FORMATS[format].extension}`;
+    downloadFile(filename, file.content, file.mimeType);
+  };
+
+  const handleExport = async (format: ExportFormat, threadIds?: string[]) => {
+    const messages = await getExportMessages(threadIds);
+    if (messages.length === 0) return;
+
+    const file = exportHistory(messages, format);
+    downloadFile(file.filename, file.content, file.mimeType);
+    toast({
+      title: "Export complete",
+      description: `${messages.length} ${messages.length === 1 ? 'entry' : 'entries'} saved to ${file.filename}.`,
+    });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { messages, skipped } = parseHistoryImport(await file.text());
+      const added = await importMessages(messages);
+      const duplicates = messages.length - added;
+      toast({
+        title: "Import complete",
+        description: [
+          `${added} ${added === 1 ? 'entry' : 'entries'} added.`,
+          duplicates > 0 && `${duplicates} already in history.`,
+          skipped > 0 && `${skipped} invalid skipped.`,
+        ].filter(Boolean).join(' '),
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file.",
+        variant: "destructive"
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 text-slate-100 tech-grid">
       {/* Header */}
@@ -181,7 +627,9 @@ const Index = () => {
             <div className="flex items-center space-x-3">
               <div className="relative">
                 <Cpu className="h-6 w-6 text-slate-300" />
-                <div className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-emerald-400/80 rounded-full status-active"></div>
+                <div className={`absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full ${statusStyle.dot} ${
+                  health.status === 'online' ? 'status-active' : ''
+                }`}></div>
               </div>
               <div>
                 <h1 className="text-lg font-semibold text-slate-200">
@@ -195,20 +643,69 @@ const Index = () => {
           </div>
           
           <div className="flex items-center space-x-2">
+            {demoMode && (
+              <div className="text-xs font-mono text-amber-300/90 glass-button px-3 py-2 rounded-lg">
+                DEMO
+              </div>
+            )}
+
             {!isMobile && (
-              <div className="flex items-center space-x-4 text-xs text-slate-400 glass-button px-3 py-2 rounded-lg font-mono">
+              <button
+                onClick={() => health.refresh()}
+                title={health.message ?? `${activeProfile.name} — click to re-check`}
+                className="flex items-center space-x-4 text-xs text-slate-400 glass-button px-3 py-2 rounded-lg font-mono"
+              >
                 <div className="flex items-center space-x-2">
-                  <Signal className="h-3 w-3 text-emerald-400/80" />
-                  <span>READY</span>
+                  <Signal className={`h-3 w-3 ${statusStyle.text}`} />
+                  <span className={health.status === 'offline' ? statusStyle.text : ''}>{statusStyle.label}</span>
                 </div>
                 <div className="w-px h-3 bg-slate-600/50"></div>
                 <div className="flex items-center space-x-2">
                   <Activity className="h-3 w-3 text-slate-400" />
-                  <span>142ms</span>
+                  <span>{health.latency !== undefined ? `${health.latency}ms` : '—'}</span>
                 </div>
-              </div>
+                {modelLabel && (
+                  <>
+                    <div className="w-px h-3 bg-slate-600/50"></div>
+                    <div className="flex items-center space-x-2">
+                      <Box className="h-3 w-3 text-slate-400" />
+                      <span>{modelLabel}</span>
+                    </div>
+                  </>
+                )}
+              </button>
             )}
             
+            <button
+              onClick={handleNewThread}
+              disabled={isBusy}
+              title="New conversation"
+              className="glass-button p-2 rounded-lg transition-all duration-200 text-slate-400 hover:text-slate-300 disabled:opacity-40"
+            >
+              <MessageSquarePlus className="h-4 w-4" />
+            </button>
+
+            <button
+              onClick={() => setShowBatch(true)}
+              title="Batch run prompts from a file"
+              className={`glass-button p-2 rounded-lg transition-all duration-200 ${
+                isBatchRunning ? 'accent-primary text-slate-300 border-slate-500/50' : 'text-slate-400 hover:text-slate-300'
+              }`}
+            >
+              <ListChecks className="h-4 w-4" />
+            </button>
+
+            <button
+              onClick={handleCompareModeToggle}
+              disabled={isBusy}
+              title="Compare configurations"
+              className={`glass-button p-2 rounded-lg transition-all duration-200 disabled:opacity-40 ${
+                compareMode ? 'accent-primary text-slate-300 border-slate-500/50' : 'text-slate-400 hover:text-slate-300'
+              }`}
+            >
+              <Columns3 className="h-4 w-4" />
+            </button>
+
             <button
               onClick={() => {
                 setShowHistory(!showHistory);
@@ -254,9 +751,19 @@ const Index = () => {
               }`}
             >
               <HistoryPanel
-                history={chatHistory}
-                onSelect={handleHistorySelect}
+                threads={threads}
+                activeThreadId={activeThreadId}
+                onSelect={handleThreadSelect}
+                onDelete={handleDeleteThreads}
+                onDiff={handleDiff}
                 onClear={clearHistory}
+                onExport={handleExport}
+                onImport={handleImport}
+                onToggleFavorite={handleToggleFavorite}
+                hasMore={hasMoreHistory}
+                isLoading={isHistoryLoading}
+                onLoadMore={loadMoreHistory}
+                onSearchPreset={loadPreset}
               />
               {isMobile && (
                 <button
@@ -273,39 +780,62 @@ const Index = () => {
         {/* Main Content */}
         <div className="flex-1 flex flex-col min-w-0">
           <div className="flex-1 p-4 lg:p-8 space-y-8 overflow-auto safe-bottom">
-            <div className="max-w-4xl mx-auto space-section">
+            <div className={`${compareMode ? 'max-w-7xl' : 'max-w-4xl'} mx-auto space-section`}>
+              {/* Comparison */}
+              {compareMode && (
+                <CompareView
+                  configs={compareConfigs}
+                  presets={presets}
+                  onConfigsChange={setCompareConfigs}
+                  runs={comparisonRuns}
+                  isRunning={isComparing}
+                  onSave={handleSaveComparison}
+                  isSaved={isComparisonSaved}
+                />
+              )}
+
+              {/* Conversation Thread */}
+              {!compareMode && (activeMessages.length > 0 || isGenerating) && (
+                <ThreadView
+                  messages={activeMessages}
+                  animateMessageId={lastGeneratedId}
+                  pendingPrompt={pendingPrompt}
+                  pendingResponse={config.candidates > 1 ? candidateRuns[0]?.response : currentResponse}
+                  isGenerating={isGenerating}
+                  isStreamed={isStreamed}
+                  onRetry={handleRetry}
+                  onRegenerate={handleRegenerate}
+                  onPreferCandidate={handlePreferCandidate}
+                  onDelete={handleDeleteMessage}
+                  regeneratingId={regeneratingId}
+                  regeneratingResponse={candidateRuns[0]?.response}
+                />
+              )}
+
               {/* Prompt Input */}
               <motion.div
                 initial={{ y: 12, opacity: 0 }}
                 animate={{ y: 0, opacity: 1 }}
                 transition={{ duration: 0.4 }}
+                className="space-y-4"
               >
+                <SystemPromptEditor
+                  value={config.systemPrompt}
+                  onChange={(systemPrompt) => setConfig({ ...config, systemPrompt })}
+                  disabled={isBusy}
+                />
                 <PromptInput
                   value={prompt}
                   onChange={setPrompt}
-                  onGenerate={handleGenerate}
-                  isGenerating={isGenerating}
+                  onGenerate={() => (compareMode ? handleCompare() : handleGenerate())}
+                  onStop={compareMode ? stopComparison : handleStop}
+                  isGenerating={isBusy}
+                  onOpenTemplates={() => setShowTemplates(true)}
                 />
               </motion.div>
 
-              {/* Output */}
-              {(currentResponse || isGenerating) && (
-                <motion.div
-                  initial={{ y: 12, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  transition={{ duration: 0.4, delay: 0.1 }}
-                >
-                  <OutputBox
-                    content={currentResponse}
-                    isGenerating={isGenerating}
-                    inferenceTime={chatHistory[0]?.inferenceTime}
-                    tokensUsed={chatHistory[0]?.tokensUsed}
-                  />
-                </motion.div>
-              )}
-
               {/* Welcome State */}
-              {!currentResponse && !isGenerating && (
+              {!compareMode && activeMessages.length === 0 && !isGenerating && (
                 <motion.div
                   initial={{ y: 20, opacity: 0 }}
                   animate={{ y: 0, opacity: 1 }}
@@ -320,25 +850,34 @@ const Index = () => {
                   
                   <div className="space-y-4">
                     <h2 className="text-2xl lg:text-3xl font-semibold text-slate-200">
-                      System Ready
+                      {statusStyle.title}
                     </h2>
                     <p className="text-slate-400 max-w-md mx-auto text-sm lg:text-base leading-relaxed">
-                      Advanced language processing system initialized and ready for interaction.
+                      {health.status === 'online' && 'Advanced language processing system initialized and ready for interaction.'}
+                      {health.status === 'checking' && `Checking ${activeProfile.name}...`}
+                      {health.status === 'degraded' && `${activeProfile.name} is responding slowly or reporting problems${health.message ? `: ${health.message}` : '.'}`}
+                      {health.status === 'offline' && `Unable to reach ${activeProfile.name}${health.message ? ` (${health.message})` : ''}.`}
                     </p>
                   </div>
                   
                   <div className="flex flex-wrap justify-center gap-4 text-xs text-slate-500 font-mono">
                     <div className="flex items-center space-x-2 glass-button px-3 py-2 rounded-lg">
-                      <div className="w-1.5 h-1.5 bg-emerald-400/80 rounded-full status-active"></div>
-                      <span>Online</span>
+                      <div className={`w-1.5 h-1.5 rounded-full ${statusStyle.dot} ${
+                        health.status === 'online' ? 'status-active' : ''
+                      }`}></div>
+                      <span className={statusStyle.text}>{statusStyle.label}</span>
                     </div>
                     <div className="flex items-center space-x-2 glass-button px-3 py-2 rounded-lg">
                       <Activity className="h-3 w-3 text-slate-400" />
-                      <span>Low Latency</span>
+                      <span>{health.latency !== undefined ? `${health.latency}ms round trip` : 'No latency data'}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 glass-button px-3 py-2 rounded-lg">
+                      <Box className="h-3 w-3 text-slate-400" />
+                      <span>{modelLabel || 'Model unknown'}</span>
                     </div>
                     <div className="flex items-center space-x-2 glass-button px-3 py-2 rounded-lg">
                       <Zap className="h-3 w-3 text-slate-400" />
-                      <span>GPU Ready</span>
+                      <span>{health.device ? health.device.toUpperCase() : 'Device unknown'}</span>
                     </div>
                   </div>
                 </motion.div>
@@ -364,7 +903,25 @@ const Index = () => {
               <SettingsPanel
                 config={config}
                 onConfigChange={setConfig}
-              />
+                presets={presets}
+                onCreatePreset={createPreset}
+                onUpdatePreset={updatePreset}
+                onRemovePreset={removePreset}
+                onMovePreset={movePreset}
+                onImportPresets={handleImportPresets}
+                onExportPresets={handleExportPresets}
+                onFetchDistribution={fetchNextTokenDistribution}
+              >
+                <ConnectionProfiles
+                  demoMode={demoMode}
+                  onDemoModeChange={handleDemoModeChange}
+                  profiles={profiles}
+                  activeProfile={activeProfile}
+                  onSelect={setActiveProfile}
+                  onSave={saveProfile}
+                  onRemove={removeProfile}
+                />
+              </SettingsPanel>
               {isMobile && (
                 <button
                   onClick={() => setShowSettings(false)}
@@ -377,6 +934,50 @@ const Index = () => {
           )}
         </AnimatePresence>
       </div>
+
+      <DiffDialog entries={diffEntries} onOpenChange={(open) => !open && setDiffEntries(null)} />
+
+      <BatchRunDialog
+        open={showBatch}
+        onOpenChange={setShowBatch}
+        config={config}
+        items={batchItems}
+        isRunning={isBatchRunning}
+        batchId={batchId}
+        onRun={handleBatchRun}
+        onStop={stopBatch}
+        onExport={handleBatchExport}
+        disabled={isBusy}
+      />
+
+      <TemplatePicker
+        open={showTemplates}
+        onOpenChange={setShowTemplates}
+        templates={templates}
+        onSelect={setFillingTemplate}
+        onCreate={(body) => setTemplateDraft({ body: body ?? '' })}
+        onImport={handleImportTemplates}
+        onExport={handleExportTemplates}
+        canExport={customTemplates.length > 0}
+        currentPrompt={prompt}
+      />
+      <TemplateFillDialog
+        template={fillingTemplate}
+        onOpenChange={(open) => !open && setFillingTemplate(null)}
+        onInsert={setPrompt}
+        onRun={compareMode || isBusy ? undefined : (text) => handleGenerate(text)}
+        onEdit={(template) => {
+          setFillingTemplate(null);
+          setTemplateDraft(template);
+        }}
+      />
+      <TemplateEditorDialog
+        draft={templateDraft}
+        categories={templateCategories(templates)}
+        onOpenChange={(open) => !open && setTemplateDraft(null)}
+        onSave={handleSaveTemplate}
+        onDelete={removeTemplate}
+      />
     </div>
   );
 };
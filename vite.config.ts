@@ -1,22 +1,41 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
-  plugins: [
-    react(),
-    mode === 'development' &&
-    componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+export default defineConfig(({ mode }) => {
+  // API_PROXY_TARGET forwards same-origin /api requests to a backend during
+  // development, e.g. API_PROXY_TARGET=http://localhost:8000 npm run dev
+  const env = loadEnv(mode, process.cwd(), "");
+  const proxyTarget = env.API_PROXY_TARGET;
+  const stripApiPrefix = env.API_PROXY_STRIP_PREFIX === "true";
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: proxyTarget
+        ? {
+            "/api": {
+              target: proxyTarget,
+              changeOrigin: true,
+              rewrite: stripApiPrefix
+                ? (requestPath: string) => requestPath.replace(/^\/api/, "")
+                : undefined,
+            },
+          }
+        : undefined,
+    },
+    plugins: [
+      react(),
+      mode === 'development' &&
+      componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});